@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { getBearerToken, isAdminToken } from '@/lib/adminAuth';
+import { revalidatePuzzles } from '@/lib/puzzleCache';
+import { SHEET_CACHE_TAG } from '@/lib/googleSheets';
+
+// Re-fetch puzzles now so editors' fixes go live, and report which dates changed
+export async function POST(request: NextRequest) {
+  if (!isAdminToken(getBearerToken(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // Drop the shared sheet response first so the refresh below can't reuse it
+    revalidateTag(SHEET_CACHE_TAG);
+    const summary = await revalidatePuzzles();
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error revalidating puzzles:', error);
+    return NextResponse.json(
+      { error: `Failed to revalidate puzzles: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPuzzleById } from '@/lib/puzzles';
+import { getBearerToken, isAdminToken } from '@/lib/adminAuth';
+import { PUZZLE_CHANGED_ERROR, checkRowSelections, getSolution, isCurrentVersion, parseSelections } from '@/lib/answers';
+import { INVALID_GAME_STATE_ERROR, isGameLost, readGameState, recordCheck, signGameState } from '@/lib/gameState';
+import { CheckResponse } from '@/types';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    // Editors previewing an unreleased puzzle send the admin token
+    const puzzle = await getPuzzleById(id, isAdminToken(getBearerToken(request)));
+    if (!puzzle) {
+      return NextResponse.json({ error: 'Puzzle not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!isCurrentVersion(puzzle, body?.version)) {
+      return NextResponse.json({ error: PUZZLE_CHANGED_ERROR }, { status: 409 });
+    }
+    const state = readGameState(body?.state, id, puzzle);
+    if (!state) {
+      return NextResponse.json({ error: INVALID_GAME_STATE_ERROR }, { status: 400 });
+    }
+    const selections = parseSelections(puzzle, body?.selections);
+    if (!selections) {
+      return NextResponse.json({ error: 'Invalid selections' }, { status: 400 });
+    }
+
+    const results = checkRowSelections(puzzle, selections);
+    const nextState = recordCheck(state, selections, results);
+    // The answer key is only sent once the server has counted the game as lost
+    const response: CheckResponse = {
+      results,
+      state: signGameState(nextState),
+      ...(isGameLost(nextState) && { solution: getSolution(puzzle) }),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error checking selections:', error);
+    return NextResponse.json(
+      { error: 'Failed to check selections' },
+      { status: 500 }
+    );
+  }
+}
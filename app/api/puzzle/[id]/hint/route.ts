@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPuzzleById } from '@/lib/puzzles';
+import { getBearerToken, isAdminToken } from '@/lib/adminAuth';
+import { PUZZLE_CHANGED_ERROR, getHint, isCurrentVersion, parseHintRequest } from '@/lib/answers';
+import {
+  INVALID_GAME_STATE_ERROR,
+  STRIKE_LIMIT,
+  getStrikes,
+  readGameState,
+  recordHint,
+  signGameState,
+} from '@/lib/gameState';
+import { getHintCost } from '@/lib/hints';
+import { HintResponse } from '@/types';
+
+// One hint for a game in progress, charged to its signed game state
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const puzzle = await getPuzzleById(id, isAdminToken(getBearerToken(request)));
+    if (!puzzle) {
+      return NextResponse.json({ error: 'Puzzle not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!isCurrentVersion(puzzle, body?.version)) {
+      return NextResponse.json({ error: PUZZLE_CHANGED_ERROR }, { status: 409 });
+    }
+    const state = readGameState(body?.state, id, puzzle);
+    if (!state) {
+      return NextResponse.json({ error: INVALID_GAME_STATE_ERROR }, { status: 400 });
+    }
+    const hintRequest = parseHintRequest(puzzle, body);
+    if (!hintRequest) {
+      return NextResponse.json({ error: 'Invalid hint request' }, { status: 400 });
+    }
+
+    const cost = getHintCost(hintRequest.kind, !state.standOutForfeit);
+    // A strike that ended the game would hand over the answer key for a hint
+    if (cost === 'strike' && getStrikes(state) >= STRIKE_LIMIT - 1) {
+      return NextResponse.json({ error: 'Not enough strikes left for this hint' }, { status: 400 });
+    }
+
+    const response: HintResponse = {
+      hint: getHint(id, puzzle, hintRequest),
+      cost,
+      state: signGameState(recordHint(state, cost)),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error giving hint:', error);
+    return NextResponse.json(
+      { error: 'Failed to get hint' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPuzzleByDate } from '@/lib/puzzles';
+import { toPublicPuzzle } from '@/lib/answers';
+import { isCalendarDate } from '@/lib/calendarDate';
+
+// A specific date's puzzle; unreleased dates are treated as missing
+// Shares the [id] segment with the answer endpoints - for this route the ID is the date
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: date } = await params;
+    if (!isCalendarDate(date)) {
+      return NextResponse.json({ error: `Invalid date "${date}", expected YYYY-MM-DD` }, { status: 400 });
+    }
+
+    const reshuffle = request.nextUrl.searchParams.get('reshuffle') === 'true';
+    const result = await getPuzzleByDate(date, reshuffle);
+    if (!result) {
+      return NextResponse.json({ error: 'Puzzle not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      puzzle: toPublicPuzzle(result.id, result.puzzle),
+      date: result.date,
+      source: result.source,
+    });
+  } catch (error) {
+    console.error('Error fetching puzzle by date:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch puzzle' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPuzzleById } from '@/lib/puzzles';
+import { getBearerToken, isAdminToken } from '@/lib/adminAuth';
+import { PUZZLE_CHANGED_ERROR, checkStandoutGuess, getSolution, isCurrentVersion, isValidGuess } from '@/lib/answers';
+import {
+  INVALID_GAME_STATE_ERROR,
+  isGameLost,
+  readGameState,
+  recordPartialRow,
+  recordWrongPick,
+  signGameState,
+} from '@/lib/gameState';
+import { StandoutResponse } from '@/types';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const puzzle = await getPuzzleById(id, isAdminToken(getBearerToken(request)));
+    if (!puzzle) {
+      return NextResponse.json({ error: 'Puzzle not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!isCurrentVersion(puzzle, body?.version)) {
+      return NextResponse.json({ error: PUZZLE_CHANGED_ERROR }, { status: 409 });
+    }
+    const state = readGameState(body?.state, id, puzzle);
+    if (!state) {
+      return NextResponse.json({ error: INVALID_GAME_STATE_ERROR }, { status: 400 });
+    }
+    const rowIndex = body?.rowIndex;
+    const wordIndex = body?.wordIndex;
+    if (!isValidGuess(puzzle, rowIndex, wordIndex)) {
+      return NextResponse.json({ error: 'Invalid guess' }, { status: 400 });
+    }
+    // A row whose outlier was already picked is known not to hold the Oddest, so it can't be picked again
+    if (state.partial.includes(rowIndex)) {
+      return NextResponse.json({ error: 'This row was already picked' }, { status: 400 });
+    }
+
+    const result = checkStandoutGuess(puzzle, rowIndex, wordIndex);
+    const nextState =
+      result.outcome === 'wrong' ? recordWrongPick(state, rowIndex, wordIndex)
+      : result.outcome === 'partial' ? recordPartialRow(state, rowIndex)
+      : state;
+    const response: StandoutResponse = {
+      ...result,
+      state: signGameState(nextState),
+      // A guess that used up the last strike unlocks the answer key, like a win
+      ...(isGameLost(nextState) && { solution: getSolution(puzzle) }),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error checking standout guess:', error);
+    return NextResponse.json(
+      { error: 'Failed to check guess' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRandomPastPuzzle } from '@/lib/googleSheets';
+import { getRandomPastPuzzle } from '@/lib/puzzles';
+import { toPublicPuzzle } from '@/lib/answers';
+import { validateClientDate } from '@/lib/releasePolicy';
 
 export async function GET(request: NextRequest) {
   try {
     const clientDate = request.nextUrl.searchParams.get('date');
-    const result = await getRandomPastPuzzle(clientDate);
-    return NextResponse.json(result);
+    const dateError = validateClientDate(clientDate);
+    if (dateError) {
+      return NextResponse.json({ error: dateError }, { status: 400 });
+    }
+    const reshuffle = request.nextUrl.searchParams.get('reshuffle') === 'true';
+    const result = await getRandomPastPuzzle(clientDate, reshuffle);
+    return NextResponse.json({
+      puzzle: toPublicPuzzle(result.id, result.puzzle),
+      date: result.date,
+      source: result.source,
+    });
   } catch (error) {
     console.error('Error fetching random puzzle:', error);
     return NextResponse.json(
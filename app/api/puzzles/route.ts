@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listPastPuzzles } from '@/lib/puzzles';
+import { isCalendarDate, toUtcCalendarDate } from '@/lib/calendarDate';
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+
+// Archive listing: dates and IDs of past puzzles, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const before = request.nextUrl.searchParams.get('before') ?? toUtcCalendarDate(Date.now());
+    if (!isCalendarDate(before)) {
+      return NextResponse.json({ error: `Invalid date "${before}", expected YYYY-MM-DD` }, { status: 400 });
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json({ error: `Invalid limit "${limitParam}", expected 1 to ${MAX_LIMIT}` }, { status: 400 });
+    }
+
+    // Fetch one extra to know whether there's another page
+    const puzzles = await listPastPuzzles(before, limit + 1);
+    return NextResponse.json({
+      puzzles: puzzles.slice(0, limit),
+      hasMore: puzzles.length > limit,
+    });
+  } catch (error) {
+    console.error('Error listing puzzles:', error);
+    return NextResponse.json(
+      { error: 'Failed to list puzzles' },
+      { status: 500 }
+    );
+  }
+}
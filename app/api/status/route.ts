@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScheduleCoverage, getLastServed, getScheduleCoverage } from '@/lib/puzzles';
+import { getCacheStatus } from '@/lib/puzzleCache';
+import { toUtcCalendarDate } from '@/lib/calendarDate';
+
+const DEFAULT_DAYS = 14;
+const MAX_DAYS = 90;
+
+const toIsoString = (timestamp: number | null): string | null =>
+  timestamp === null ? null : new Date(timestamp).toISOString();
+
+/**
+ * Health and schedule coverage for monitoring and editors
+ * Responds 503 when players are affected now: the source is unreachable, today has no puzzle,
+ * or the last puzzle served was the fallback. Upcoming gaps are reported but don't fail the check
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const daysParam = request.nextUrl.searchParams.get('days');
+    const days = daysParam === null ? DEFAULT_DAYS : Number(daysParam);
+    if (!Number.isInteger(days) || days < 0 || days > MAX_DAYS) {
+      return NextResponse.json({ error: `Invalid days "${daysParam}", expected 0 to ${MAX_DAYS}` }, { status: 400 });
+    }
+
+    const today = toUtcCalendarDate(Date.now());
+    // Loading the schedule also tries the source on a cold start, so reachability below is current
+    let coverage: ScheduleCoverage | null = null;
+    try {
+      coverage = await getScheduleCoverage(today, days);
+    } catch (error) {
+      console.error('Status check could not load puzzles:', error);
+    }
+
+    const cache = getCacheStatus();
+    const lastServed = getLastServed();
+    const usedFallback = lastServed?.source === 'fallback';
+    const ok = cache.sourceReachable !== false && !!coverage?.todayCovered && !usedFallback;
+
+    return NextResponse.json(
+      {
+        ok,
+        checkedAt: new Date().toISOString(),
+        source: {
+          name: cache.sourceName,
+          reachable: cache.sourceReachable,
+          lastError: cache.lastError,
+          lastFailureAt: toIsoString(cache.lastFailureAt),
+        },
+        cache: {
+          fetchedAt: toIsoString(cache.fetchedAt),
+          ageSeconds: cache.fetchedAt === null ? null : Math.round((Date.now() - cache.fetchedAt) / 1000),
+          stale: cache.stale,
+          refreshing: cache.refreshing,
+        },
+        puzzles: {
+          count: coverage?.puzzleCount ?? 0,
+          latestDate: coverage?.latestDate ?? null,
+        },
+        today: {
+          date: today,
+          covered: coverage?.todayCovered ?? false,
+        },
+        upcoming: {
+          days,
+          uncovered: coverage?.uncoveredDays ?? null, // Unknown when the puzzles couldn't be loaded
+        },
+        lastResponse: lastServed && {
+          puzzleId: lastServed.id,
+          date: lastServed.date,
+          source: lastServed.source,
+          usedFallback,
+          servedAt: toIsoString(lastServed.servedAt),
+        },
+      },
+      { status: ok ? 200 : 503, headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error checking status:', error);
+    return NextResponse.json(
+      { error: 'Failed to check status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import Game from '@/components/Game'
+import { isAdminToken } from '@/lib/adminAuth'
+import { getSolution, toPublicPuzzle } from '@/lib/answers'
+import { isCalendarDate } from '@/lib/calendarDate'
+import { getScheduledPuzzle } from '@/lib/puzzles'
+
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+}
+
+// Editor preview of any scheduled puzzle ("/preview/2025-03-03?token=..."), answers annotated
+// Without a valid token the page doesn't exist, so unreleased dates can't be probed
+export default async function PreviewPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ date: string }>
+  searchParams: Promise<{ token?: string | string[] }>
+}) {
+  const { date } = await params
+  const { token } = await searchParams
+  if (typeof token !== 'string' || !isAdminToken(token) || !isCalendarDate(date)) {
+    notFound()
+  }
+
+  const result = await getScheduledPuzzle(date)
+  if (!result) {
+    notFound()
+  }
+
+  return (
+    <Game
+      preview={{
+        token,
+        puzzle: {
+          puzzle: toPublicPuzzle(result.id, result.puzzle),
+          date: result.date,
+          source: result.source,
+        },
+        solution: getSolution(result.puzzle),
+      }}
+    />
+  )
+}
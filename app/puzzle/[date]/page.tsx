@@ -0,0 +1,14 @@
+import { notFound } from 'next/navigation'
+import Game from '@/components/Game'
+import { isCalendarDate } from '@/lib/calendarDate'
+import { isReleased } from '@/lib/releasePolicy'
+
+// Shareable link to one date's puzzle ("/puzzle/2025-03-03")
+export default async function PuzzlePage({ params }: { params: Promise<{ date: string }> }) {
+  const { date } = await params
+  if (!isCalendarDate(date) || !isReleased(date)) {
+    notFound()
+  }
+
+  return <Game puzzleDate={date} />
+}
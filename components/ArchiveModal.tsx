@@ -0,0 +1,171 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import dayjs from 'dayjs';
+import { PuzzleListing } from '@/types';
+import Dialog from '@/components/Dialog';
+import ScoreMark from '@/components/ScoreMark';
+import { ArchiveStatus, getArchiveStatus, loadHistory } from '@/lib/stats';
+
+interface ArchiveModalProps {
+  currentPuzzleId: string;
+  onSelect: (date: string) => void;
+  onRandom: () => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 30;
+
+// Fetch a page of past puzzle dates, newest first
+async function fetchPuzzleListings(before: string): Promise<{ puzzles: PuzzleListing[]; hasMore: boolean }> {
+  const res = await fetch(`/api/puzzles?before=${before}&limit=${PAGE_SIZE}`);
+  const data = await res.json();
+  if (data.error) throw new Error(data.error);
+  return data;
+}
+
+const STATUS_LABELS: Record<ArchiveStatus, string> = {
+  starred: 'Won with a star',
+  won: 'Won',
+  lost: 'Lost',
+  unplayed: 'Not played',
+};
+
+// Played puzzles use the score marks, so won and lost differ by glyph as well as colour
+const StatusIcon: React.FC<{ status: ArchiveStatus }> = ({ status }) => {
+  switch (status) {
+    case 'starred':
+      return <ScoreMark item={{ color: 'PURPLE', shape: 'star' }} />;
+    case 'won':
+      return <ScoreMark item={{ color: 'PURPLE', shape: 'circle' }} />;
+    case 'lost':
+      return <ScoreMark item={{ color: 'RED', shape: 'circle' }} />;
+    case 'unplayed':
+    default:
+      return <span className="h-3 w-3 rounded-full border-2 border-stone-300 dark:border-stone-600" />;
+  }
+};
+
+const ArchiveModal: React.FC<ArchiveModalProps> = ({ currentPuzzleId, onSelect, onRandom, onClose }) => {
+  const [listings, setListings] = useState<PuzzleListing[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [history] = useState(loadHistory);
+
+  // Each page starts before the oldest date already shown; without one, start again from today
+  const loadPage = useCallback(async (before?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchPuzzleListings(before ?? dayjs().format('YYYY-MM-DD'));
+      setListings((prev) => (before ? [...prev, ...page.puzzles] : page.puzzles));
+      setHasMore(page.hasMore);
+    } catch {
+      setError("Couldn't load the archive.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  // Group by month, keeping newest first
+  const months: { label: string; listings: PuzzleListing[] }[] = [];
+  for (const listing of listings) {
+    const label = dayjs(listing.date).format('MMMM YYYY');
+    const month = months[months.length - 1];
+    if (month?.label === label) {
+      month.listings.push(listing);
+    } else {
+      months.push({ label, listings: [listing] });
+    }
+  }
+
+  return (
+    <Dialog
+      labelledBy="archive-title"
+      onClose={onClose}
+      className="bg-white dark:bg-stone-800 rounded-lg shadow-2xl max-w-md w-full max-h-[85vh] flex flex-col p-4 sm:p-6 text-left"
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2 id="archive-title" className="text-lg sm:text-xl font-serif font-bold text-stone-900 dark:text-stone-100">
+          Archive
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-stone-400 hover:text-stone-600 dark:hover:text-stone-300 text-2xl leading-none"
+          aria-label="Close"
+        >
+          &times;
+        </button>
+      </div>
+      <div className="flex justify-between items-start gap-2 mb-3 text-[10px] sm:text-xs text-stone-500 dark:text-stone-400">
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {(['starred', 'won', 'lost', 'unplayed'] as ArchiveStatus[]).map((status) => (
+            <span key={status} className="flex items-center gap-1">
+              <StatusIcon status={status} />
+              {STATUS_LABELS[status]}
+            </span>
+          ))}
+        </div>
+        <button
+          onClick={onRandom}
+          className="font-medium text-stone-600 dark:text-stone-400 hover:text-violet-500 dark:hover:text-violet-400 transition-colors"
+        >
+          Random
+        </button>
+      </div>
+      <div className="overflow-y-auto -mx-2 px-2">
+        {months.map((month) => (
+          <div key={month.label} className="mb-4">
+            <h3 className="font-bold text-stone-900 dark:text-stone-100 mb-2 text-xs sm:text-sm">
+              {month.label}
+            </h3>
+            <div className="grid grid-cols-4 sm:grid-cols-5 gap-2">
+              {month.listings.map((listing) => {
+                const status = getArchiveStatus(history[listing.id]);
+                const isCurrent = listing.id === currentPuzzleId;
+                return (
+                  <button
+                    key={listing.id}
+                    onClick={() => onSelect(listing.date)}
+                    aria-label={`${dayjs(listing.date).format('D MMMM YYYY')}: ${STATUS_LABELS[status]}`}
+                    className={`flex flex-col items-center gap-1 py-2 rounded-md border-2 transition-colors ${
+                      isCurrent
+                        ? "border-violet-500"
+                        : "border-stone-200 dark:border-stone-700 hover:border-violet-400"
+                    }`}
+                  >
+                    <span className="text-[10px] uppercase text-stone-500 dark:text-stone-400">
+                      {dayjs(listing.date).format('ddd')}
+                    </span>
+                    <span className="text-sm font-bold text-stone-900 dark:text-stone-100">
+                      {dayjs(listing.date).format('D')}
+                    </span>
+                    <StatusIcon status={status} />
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+        {!loading && !error && listings.length === 0 && (
+          <p className="text-xs sm:text-sm text-stone-500 dark:text-stone-400">No past puzzles yet.</p>
+        )}
+        {error && <p className="text-xs sm:text-sm text-rose-500">{error}</p>}
+        {loading && <p className="text-xs sm:text-sm text-stone-500 dark:text-stone-400">Loading...</p>}
+        {!loading && (hasMore || error) && (
+          <button
+            onClick={() => loadPage(listings[listings.length - 1]?.date)}
+            className="w-full mt-2 py-2 text-xs sm:text-sm font-medium text-stone-600 dark:text-stone-400 hover:text-violet-500 dark:hover:text-violet-400 transition-colors"
+          >
+            {error ? 'Try again' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </Dialog>
+  );
+};
+
+export default ArchiveModal;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { CardState } from '@/types';
+import OutcomeGlyph, { Outcome } from '@/components/OutcomeGlyph';
 
 interface CardProps {
   text: string;
@@ -8,11 +9,37 @@ interface CardProps {
   disabled: boolean;
   style?: React.CSSProperties;
   className?: string;
+  position?: string; // Where the card sits, for screen readers (e.g. "row 2, word 3")
+  column?: number; // Grid column, used by arrow-key navigation
 }
 
-const Card: React.FC<CardProps> = ({ text, state, onClick, disabled, style, className = '' }) => {
+// What each state means, read out after the word (IDLE says nothing extra)
+const STATE_DESCRIPTIONS: Record<CardState, string> = {
+  [CardState.IDLE]: '',
+  [CardState.SELECTED]: 'selected',
+  [CardState.SELECTED_PHASE2]: 'selected, ready to guess',
+  [CardState.SELECTED_NO_GLOW]: 'selected',
+  [CardState.DIMMED]: 'not chosen',
+  [CardState.LOCKED_OUTLIER]: 'odd one out of its row, but not the Oddest',
+  [CardState.LOCKED_OTHER]: 'locked',
+  [CardState.ULTIMATE_WINNER]: 'the Oddest One Out',
+  [CardState.CORRECT_ROW_WRONG_GAME]: 'odd one out of its row',
+  [CardState.INACTIVE_ROW]: 'row solved',
+  [CardState.WRONG]: 'wrong guess',
+  [CardState.WIN]: 'correct',
+  [CardState.ELIMINATED]: 'ruled out by a hint',
+};
+
+// States that also carry a glyph and a theme hook class (card-wrong etc.), so they don't rely on colour alone
+const STATE_OUTCOMES: Partial<Record<CardState, Outcome>> = {
+  [CardState.WRONG]: 'wrong',
+  [CardState.LOCKED_OUTLIER]: 'partial',
+  [CardState.ULTIMATE_WINNER]: 'winner',
+};
+
+const Card: React.FC<CardProps> = ({ text, state, onClick, disabled, style, className = '', position, column }) => {
   const getBaseClasses = () => {
-    return "h-14 sm:h-16 w-full flex items-center justify-center font-bold text-[10px] sm:text-xs uppercase tracking-wider rounded-md transition-all duration-300 border-2 select-none px-1";
+    return "card relative h-14 sm:h-16 w-full flex items-center justify-center font-bold text-[10px] sm:text-xs uppercase tracking-wider rounded-md transition-all duration-300 border-2 select-none px-1";
   };
 
   const getStateClasses = () => {
@@ -39,19 +66,26 @@ const Card: React.FC<CardProps> = ({ text, state, onClick, disabled, style, clas
         return "bg-stone-200 dark:bg-stone-700 border-stone-300 dark:border-stone-600 text-stone-400 cursor-not-allowed";
       case CardState.ULTIMATE_WINNER:
         return "bg-violet-500 border-violet-600 text-white shadow-lg";
+      case CardState.ELIMINATED:
+        return "bg-stone-100 dark:bg-stone-800 border-dashed border-stone-300 dark:border-stone-600 text-stone-400 dark:text-stone-500 line-through cursor-not-allowed";
       case CardState.IDLE:
       default:
         return "bg-white dark:bg-stone-800 border-stone-300 dark:border-stone-600 text-stone-800 dark:text-stone-100 hover:bg-stone-50 dark:hover:bg-stone-700 cursor-pointer hover:shadow-sm";
     }
   };
 
+  const outcome = STATE_OUTCOMES[state];
+
   return (
     <button
       onClick={onClick}
       disabled={disabled}
+      aria-label={[text, position, STATE_DESCRIPTIONS[state]].filter(Boolean).join(', ')}
+      data-column={column}
       style={style}
-      className={`${getBaseClasses()} ${getStateClasses()} ${className}`}
+      className={`${getBaseClasses()} ${getStateClasses()} ${outcome ? `card-${outcome}` : ''} ${className}`}
     >
+      {outcome && <OutcomeGlyph outcome={outcome} className="absolute top-1 right-1 h-2.5 w-2.5 sm:h-3 sm:w-3" />}
       {text}
     </button>
   );
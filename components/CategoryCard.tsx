@@ -26,9 +26,9 @@ const CategoryCard: React.FC<CategoryCardProps> = ({ category, words }) => {
             <span
               className={
                 word.status === 'wrong'
-                  ? 'text-rose-500 font-bold'
+                  ? 'text-rose-500 font-bold line-through word-wrong'
                   : word.status === 'partial'
-                  ? 'text-amber-500 font-bold'
+                  ? 'text-amber-500 font-bold underline word-partial'
                   : 'text-stone-600 dark:text-stone-400'
               }
             >
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+
+interface DialogProps {
+  labelledBy: string; // ID of the dialog's heading
+  onClose: () => void;
+  className: string; // Panel classes
+  overlayClassName?: string;
+  children: React.ReactNode;
+}
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Modal shell shared by every dialog: closes on Escape or a click outside, keeps Tab inside the panel,
+ * and hands focus back to whatever had it before the dialog opened
+ */
+const Dialog: React.FC<DialogProps> = ({
+  labelledBy,
+  onClose,
+  className,
+  overlayClassName = 'bg-black/60 backdrop-blur-sm',
+  children,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const panel = panelRef.current;
+    (panel?.querySelector<HTMLElement>(FOCUSABLE) ?? panel)?.focus();
+    return () => previouslyFocused?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key !== 'Tab' || !panelRef.current) return;
+
+    const focusable = [...panelRef.current.querySelectorAll<HTMLElement>(FOCUSABLE)];
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 flex items-center justify-center z-50 p-4 ${overlayClassName}`}
+      onClick={onClose}
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        tabIndex={-1}
+        className={`focus:outline-none ${className}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default Dialog;
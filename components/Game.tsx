@@ -3,23 +3,54 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import dayjs from "dayjs";
 import {
-  GameData,
-  GameRow as GameRowType,
+  PublicGameData,
+  RowReveal,
+  PuzzleSolution,
+  CheckResponse,
+  StandoutResponse,
   RowDisplayState,
   GamePhase,
   RowCheckStatus,
+  ScoreColor,
+  ScoreShape,
+  ScoreItem,
+  GameResult,
+  GuessRecord,
+  GameStatus,
+  PuzzleDataSource,
+  PuzzleResponse,
+  PuzzlePreview,
+  ColorTheme,
+  HintKind,
+  HintRequest,
+  HintResponse,
+  UsedHint,
 } from "@/types";
 import GameRow from "@/components/GameRow";
 import InfoModal from "@/components/InfoModal";
+import StatsModal from "@/components/StatsModal";
+import ArchiveModal from "@/components/ArchiveModal";
+import StandoutInfoModal from "@/components/StandoutInfoModal";
+import ReviewPanel from "@/components/ReviewPanel";
 import OddestPuzzleRow from "@/components/OddestPuzzleRow";
+import ScoreMark, { describeScore } from "@/components/ScoreMark";
+import HintPanel from "@/components/HintPanel";
+import { SavedGame, loadSavedGame, saveGame, pruneSavedGames } from "@/lib/gameStorage";
+import { computeStats, loadHistory, recordGame } from "@/lib/stats";
+import { buildShareText } from "@/lib/share";
+import { isCalendarDate } from "@/lib/calendarDate";
+import { Timeline, TimelineCancelledError, createTimeline } from "@/lib/timeline";
+import { MAX_KNOWN_WRONG_PER_ROW, describeHint, forfeitsStar, getHintCost } from "@/lib/hints";
 
 const SCORE_LIMIT = 3;
-type ScoreColor = "RED" | "YELLOW" | "PURPLE";
-type ScoreShape = "circle" | "star";
-interface ScoreItem {
-  color: ScoreColor;
-  shape: ScoreShape;
-}
+
+// Order the theme button cycles through, with the names it shows
+const COLOR_THEMES: ColorTheme[] = ["standard", "high-contrast", "colorblind"];
+const COLOR_THEME_NAMES: Record<ColorTheme, string> = {
+  standard: "Standard",
+  "high-contrast": "High contrast",
+  colorblind: "Colour-blind safe",
+};
 type FeedbackMessage = "wrong" | "partial" | "lastguess";
 
 // Tip configuration - single source of truth for all tip text
@@ -114,33 +145,178 @@ const ROW_REORDER_DURATION = 1000;
 const WIN_PAUSE = 1000;
 const WRONG_FLASH_DURATION = 500;
 const ROW_CHECK_DELAY = 400;
+const STATS_DELAY = 1500;
+
+// Visual row order once the game ends: the ultimate row moves to the bottom, the others keep their order
+const getEndedRowOrder = (ultimateRowIndex: number): number[] => {
+  const newOrder = new Array(4).fill(0);
+  let pos = 0;
+  for (let i = 0; i < 4; i++) {
+    if (i !== ultimateRowIndex) {
+      newOrder[i] = pos;
+      pos++;
+    }
+  }
+  newOrder[ultimateRowIndex] = 3;
+  return newOrder;
+};
 
-// Helper for async delays
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-// Fetch today's puzzle from API
-async function fetchTodaysPuzzle(): Promise<GameData> {
+// Fetch today's puzzle from API (reshuffle = practice layout instead of the shared daily one)
+async function fetchTodaysPuzzle(reshuffle = false): Promise<PuzzleResponse> {
   const localDate = dayjs().format('YYYY-MM-DD');
-  const res = await fetch(`/api/puzzle/today?date=${localDate}`);
+  const res = await fetch(`/api/puzzle/today?date=${localDate}${reshuffle ? '&reshuffle=true' : ''}`);
   const data = await res.json();
   if (data.error) throw new Error(data.error);
-  return data.puzzle;
+  return data;
 }
 
 // Fetch random past puzzle from API
-async function fetchRandomPastPuzzle(): Promise<GameData> {
+async function fetchRandomPastPuzzle(): Promise<PuzzleResponse> {
   const localDate = dayjs().format('YYYY-MM-DD');
   const res = await fetch(`/api/puzzle/random?date=${localDate}`);
   const data = await res.json();
   if (data.error) throw new Error(data.error);
-  return data.puzzle;
+  return data;
+}
+
+// Fetch a specific date's puzzle from API (deep links and archive replays)
+async function fetchPuzzleByDate(date: string, reshuffle = false): Promise<PuzzleResponse> {
+  const res = await fetch(`/api/puzzle/${date}${reshuffle ? '?reshuffle=true' : ''}`);
+  const data = await res.json();
+  if (data.error) throw new Error(data.error);
+  return data;
+}
+
+// Arrow-key offsets as [row step, column step]
+const ARROW_STEPS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+const CARD_SELECTOR = "button[data-column]:not([disabled])";
+
+// Move focus between the cards inside a container with the arrow keys
+// Rows come from data-grid-row (visual order); a container without rows is treated as one row
+const moveCardFocus = (e: React.KeyboardEvent<HTMLElement>) => {
+  const step = ARROW_STEPS[e.key];
+  const current = (e.target as HTMLElement).closest<HTMLElement>("button[data-column]");
+  if (!step || !current) return;
+  e.preventDefault();
+
+  const toPosition = (el: HTMLElement) => ({
+    el,
+    row: Number(el.closest<HTMLElement>("[data-grid-row]")?.dataset.gridRow ?? 0),
+    column: Number(el.dataset.column),
+  });
+  const from = toPosition(current);
+  const cards = [...e.currentTarget.querySelectorAll<HTMLElement>(CARD_SELECTOR)].map(toPosition);
+  const [rowStep, columnStep] = step;
+
+  // Left/right: the nearest card that way in the same row; up/down: the nearest row that way, then the nearest column
+  const candidates = columnStep
+    ? cards.filter((card) => card.row === from.row && Math.sign(card.column - from.column) === columnStep)
+    : cards.filter((card) => Math.sign(card.row - from.row) === rowStep);
+  const distance = (card: { row: number; column: number }) =>
+    Math.abs(card.row - from.row) * 10 + Math.abs(card.column - from.column);
+  candidates.sort((a, b) => distance(a) - distance(b))[0]?.el.focus();
+};
+
+const focusFirstCard = (container: HTMLElement | null) => {
+  container?.querySelector<HTMLElement>(CARD_SELECTOR)?.focus();
+};
+
+// Thrown when the puzzle was edited on the server after this version was loaded
+class PuzzleChangedError extends Error {}
+
+// The answer that uses up the last strike carries the answer key
+// Without it the server's strike count disagrees with this game's, so the loss can't be shown
+const getLossSolution = ({ solution }: { solution?: PuzzleSolution }): PuzzleSolution => {
+  if (!solution) throw new Error("The answer key didn't arrive with the last strike");
+  return solution;
+};
+
+const PUZZLE_UPDATED_NOTICE = "This puzzle was updated since you started, so it has been restarted.";
+const SAVE_RESTARTED_NOTICE = "Your saved progress on this puzzle couldn't be resumed, so it has been restarted.";
+
+// Preview mode grades unreleased puzzles, which the answer endpoints only allow with the admin token
+const authHeaders = (token?: string): Record<string, string> => (token ? { Authorization: `Bearer ${token}` } : {});
+
+// Grade row selections on the server (Check mode)
+// state is the signed game state from the last answer (null for a new game)
+async function checkSelections(
+  puzzle: PublicGameData,
+  selections: Record<number, number>,
+  state: string | null,
+  token?: string
+): Promise<CheckResponse> {
+  const res = await fetch(`/api/puzzle/${puzzle.id}/check`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(token) },
+    body: JSON.stringify({ selections, state, version: puzzle.version }),
+  });
+  const data = await res.json();
+  if (res.status === 409) throw new PuzzleChangedError(data.error);
+  if (data.error) throw new Error(data.error);
+  return data;
 }
 
-export default function Game() {
-  const [gameData, setGameData] = useState<GameData | null>(null);
+// Grade a final pick on the server (Stand Out mode)
+async function submitStandoutGuess(
+  puzzle: PublicGameData,
+  rowIndex: number,
+  wordIndex: number,
+  state: string | null,
+  token?: string
+): Promise<StandoutResponse> {
+  const res = await fetch(`/api/puzzle/${puzzle.id}/standout`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(token) },
+    body: JSON.stringify({ rowIndex, wordIndex, state, version: puzzle.version }),
+  });
+  const data = await res.json();
+  if (res.status === 409) throw new PuzzleChangedError(data.error);
+  if (data.error) throw new Error(data.error);
+  return data;
+}
+
+// Ask the server for a hint; it charges the cost to the signed game state it sends back
+async function requestHint(
+  puzzle: PublicGameData,
+  request: HintRequest,
+  state: string | null,
+  token?: string
+): Promise<HintResponse> {
+  const res = await fetch(`/api/puzzle/${puzzle.id}/hint`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(token) },
+    body: JSON.stringify({ ...request, state, version: puzzle.version }),
+  });
+  const data = await res.json();
+  if (res.status === 409) throw new PuzzleChangedError(data.error);
+  if (data.error) throw new Error(data.error);
+  return data;
+}
+
+interface GameProps {
+  puzzleDate?: string; // Play this date's puzzle instead of today's ("/puzzle/[date]")
+  preview?: PuzzlePreview; // Editor preview ("/preview/[date]"): nothing is saved or recorded
+}
+
+export default function Game({ puzzleDate, preview }: GameProps) {
+  const previewToken = preview?.token;
+  const [gameData, setGameData] = useState<PublicGameData | null>(null);
+  // Loading state of the current puzzle (a finished game is tracked by gameResult)
+  const [status, setStatus] = useState<GameStatus>("loading");
+  const [loadError, setLoadError] = useState<{ offline: boolean; message: string } | null>(null);
+  const [puzzleSource, setPuzzleSource] = useState<PuzzleDataSource | null>(null);
+  const [puzzleNotice, setPuzzleNotice] = useState<string | null>(null);
   const [gamePhase, setGamePhase] = useState<GamePhase>("playing");
-  const [gameResult, setGameResult] = useState<"won" | "lost" | null>(null);
+  const [gameResult, setGameResult] = useState<GameResult | null>(null);
   const [showInfo, setShowInfo] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
   const [showStandoutInfo, setShowStandoutInfo] = useState(false);
   const [showStandoutText, setShowStandoutText] = useState(false);
   const [showCheckButtonDelayed, setShowCheckButtonDelayed] = useState(false);
@@ -159,8 +335,51 @@ export default function Game() {
     } else {
       document.documentElement.classList.remove("dark");
     }
-    localStorage.setItem("darkMode", String(darkMode));
-  }, [darkMode]);
+    if (!preview) localStorage.setItem("darkMode", String(darkMode));
+  }, [darkMode, preview]);
+
+  const [colorTheme, setColorTheme] = useState<ColorTheme>(() => {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem("colorTheme");
+      return COLOR_THEMES.find((theme) => theme === stored) ?? "standard";
+    }
+    return "standard";
+  });
+
+  useEffect(() => {
+    document.documentElement.dataset.theme = colorTheme;
+    if (!preview) localStorage.setItem("colorTheme", colorTheme);
+  }, [colorTheme, preview]);
+
+  const cycleColorTheme = () =>
+    setColorTheme((current) => COLOR_THEMES[(COLOR_THEMES.indexOf(current) + 1) % COLOR_THEMES.length]);
+
+  // Instant Reveal setting; null until the player picks one, so the system's reduced-motion setting applies
+  const [instantReveal, setInstantReveal] = useState<boolean | null>(() => {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem("instantReveal");
+      return stored === null ? null : stored === "true";
+    }
+    return null;
+  });
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
+  const reduceMotion = instantReveal ?? prefersReducedMotion;
+
+  useEffect(() => {
+    const query = window.matchMedia("(prefers-reduced-motion: reduce)");
+    const update = () => setPrefersReducedMotion(query.matches);
+    update();
+    query.addEventListener("change", update);
+    return () => query.removeEventListener("change", update);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle("reduce-motion", reduceMotion);
+  }, [reduceMotion]);
+
+  useEffect(() => {
+    if (instantReveal !== null && !preview) localStorage.setItem("instantReveal", String(instantReveal));
+  }, [instantReveal, preview]);
 
   useEffect(() => {
     const updateRowHeight = () => {
@@ -171,23 +390,6 @@ export default function Game() {
     return () => window.removeEventListener("resize", updateRowHeight);
   }, []);
 
-  // Synced glow animation using CSS custom property
-  useEffect(() => {
-    const GLOW_DURATION = 1500; // ms, matches animation duration
-    let animationId: number;
-
-    const updateGlow = () => {
-      const progress = (Date.now() % GLOW_DURATION) / GLOW_DURATION;
-      // Sine wave: 0 -> 1 -> 0 over the cycle
-      const intensity = Math.sin(progress * Math.PI);
-      document.documentElement.style.setProperty('--glow-intensity', String(intensity));
-      animationId = requestAnimationFrame(updateGlow);
-    };
-
-    updateGlow();
-    return () => cancelAnimationFrame(animationId);
-  }, []);
-
   const [selections, setSelections] = useState<Record<number, number>>({});
   const [selectionOrder, setSelectionOrder] = useState<number[]>([]); // Track order of row selections
   const [oddestPuzzleSelection, setOddestPuzzleSelection] = useState<number | null>(null); // Track selected card in Oddest Puzzle row (by rowIndex)
@@ -202,7 +404,11 @@ export default function Game() {
   const [showMetaOverlay, setShowMetaOverlay] = useState(false);
 
   const [score, setScore] = useState<ScoreItem[]>([]);
+  const [guesses, setGuesses] = useState<GuessRecord[]>([]); // Every graded guess in order, for sharing
   const [hasUsedCheck, setHasUsedCheck] = useState(false);
+  const [hints, setHints] = useState<UsedHint[]>([]);
+  // Signed game state from the server's last answer, sent back with the next answer request
+  const [gameState, setGameState] = useState<string | null>(null);
   const [failedGuesses, setFailedGuesses] = useState<
     Record<number, Set<number>>
   >({});
@@ -217,20 +423,54 @@ export default function Game() {
     2: "pending",
     3: "pending",
   });
+  // Answers arrive from the server as rows are revealed; the full solution only once the game ends
+  const [rowReveals, setRowReveals] = useState<Record<number, RowReveal>>({});
+  const [solution, setSolution] = useState<PuzzleSolution | null>(null);
+  // Set when a saved game was reloaded mid-Check, so the Check can finish
+  const [resumeCheck, setResumeCheck] = useState(false);
+
+  // The running animation sequence, if any; blocks double triggers and is cancelled with its puzzle
+  const timelineRef = useRef<Timeline | null>(null);
 
-  // Track if animation is running to prevent double triggers
-  const isAnimatingRef = useRef(false);
+  // Date of the archived puzzle being played (null for today's), so Play Again replays the same puzzle
+  const archiveDateRef = useRef<string | null>(puzzleDate ?? null);
 
   // Store last displayed tip to freeze during checking phase
   const lastTipRef = useRef<Tip>(TIPS.initial);
 
+  // Keyboard shortcuts move focus into these
+  const gridRef = useRef<HTMLDivElement>(null);
+  const oddestRowRef = useRef<HTMLDivElement>(null);
+
+  // Read out politely by screen readers: tips, Check results and the game result
+  const [announcement, setAnnouncement] = useState("");
+
   // Keep score ref in sync for use in async callbacks (avoids stale closure issues)
   const scoreRef = useRef<ScoreItem[]>([]);
   useEffect(() => {
     scoreRef.current = score;
   }, [score]);
 
+  // Same for the game state, which answers inside one sequence hand on to the next request
+  const gameStateRef = useRef<string | null>(null);
+  const updateGameState = useCallback((state: string) => {
+    setGameState(state);
+    gameStateRef.current = state;
+  }, []);
+
+  // Stand Out stars can still be won: Check hasn't been used and no hint was paid for with the star
+  const canWinStar = !hasUsedCheck && !forfeitsStar(hints);
+
+  // Turn the stars in the score into circles once Stand Out mode is forfeit; returns the new score
+  const forfeitStandOut = useCallback(() => {
+    const circles = scoreRef.current.map((item) => ({ ...item, shape: "circle" as ScoreShape }));
+    setScore(circles);
+    scoreRef.current = circles;
+    return circles;
+  }, []);
+
   const resetGameState = useCallback(() => {
+    setGameData(null);
     setSelections({});
     setSelectionOrder([]);
     setOddestPuzzleSelection(null);
@@ -242,7 +482,11 @@ export default function Game() {
     });
     setScore([]);
     scoreRef.current = [];
+    setGuesses([]);
     setHasUsedCheck(false);
+    setHints([]);
+    setGameState(null);
+    gameStateRef.current = null;
     setFailedGuesses({});
     setSolvedRows(new Set());
     setRowsNeedingReselection(new Set());
@@ -257,79 +501,336 @@ export default function Game() {
       2: "pending",
       3: "pending",
     });
-    isAnimatingRef.current = false;
+    setRowReveals({});
+    setSolution(null);
+    setResumeCheck(false);
+    timelineRef.current?.cancel();
+    timelineRef.current = null;
   }, []);
 
-  // Load today's puzzle (used on initial page load)
-  const initGame = useCallback(async () => {
-    resetGameState();
-    const data = await fetchTodaysPuzzle();
-    setGameData(data);
-  }, [resetGameState]);
+  // Restore a saved game: interrupted animations are settled, finished games show their ended state
+  const restoreGameState = useCallback((saved: SavedGame) => {
+    setSelections(saved.selections);
+    setSelectionOrder(saved.selectionOrder);
+    setScore(saved.score);
+    scoreRef.current = saved.score;
+    setGuesses(saved.guesses ?? []);
+    setHasUsedCheck(saved.hasUsedCheck);
+    setHints(saved.hints ?? []);
+    setGameState(saved.gameState ?? null);
+    gameStateRef.current = saved.gameState ?? null;
+    setFailedGuesses(
+      Object.fromEntries(
+        Object.entries(saved.failedGuesses).map(([rowIdx, wordIndices]) => [rowIdx, new Set(wordIndices)])
+      )
+    );
+    setSolvedRows(new Set(saved.solvedRows));
+    setRowsNeedingReselection(new Set(saved.rowsNeedingReselection));
+    setRowCheckStatuses(saved.rowCheckStatuses);
+    setRowReveals(saved.rowReveals);
+    setSolution(saved.solution);
+    setGameResult(saved.gameResult);
+
+    if (saved.gameResult && saved.solution) {
+      setRowStates({
+        0: "revealed",
+        1: "revealed",
+        2: "revealed",
+        3: "revealed",
+      });
+      setVisualRowOrder(getEndedRowOrder(saved.solution.ultimateOutlierRowIndex));
+      setShowMetaOverlay(true);
+      setGamePhase("ended");
+    } else {
+      setRowStates(
+        Object.fromEntries(
+          [0, 1, 2, 3].map((rowIdx) => [
+            rowIdx,
+            saved.rowCheckStatuses[rowIdx] === "revealed" ? "revealed" : "interactive",
+          ])
+        )
+      );
+      setResumeCheck(saved.checkInProgress);
+    }
+  }, []);
 
-  // Load a random past puzzle (used when clicking shuffle button)
-  const loadRandomPastPuzzle = useCallback(async () => {
-    resetGameState();
-    const data = await fetchRandomPastPuzzle();
+  const applySolution = useCallback((newSolution: PuzzleSolution) => {
+    setSolution(newSolution);
+    setRowReveals(
+      Object.fromEntries(newSolution.rows.map((reveal, rowIndex) => [rowIndex, reveal]))
+    );
+  }, []);
+
+  // Show a loaded puzzle, resuming any saved progress for it
+  const startPuzzle = useCallback(async ({ puzzle: data, source }: PuzzleResponse) => {
+    let saved = preview ? null : loadSavedGame(data.id);
+    // Progress made on an older version of the puzzle can point at the wrong words, so start over
+    if (saved?.version && saved.version !== data.version) {
+      saved = null;
+      setPuzzleNotice(PUZZLE_UPDATED_NOTICE);
+    }
+    // Saves from before the server signed game state can't be graded any further,
+    // and a finished game needs its answer key to be shown
+    const unresumable = saved?.gameResult
+      ? !saved.solution
+      : !saved?.gameState && ((saved?.guesses?.length ?? 0) > 0 || (saved?.hints?.length ?? 0) > 0);
+    if (unresumable) {
+      saved = null;
+      setPuzzleNotice(SAVE_RESTARTED_NOTICE);
+    }
     setGameData(data);
-  }, [resetGameState]);
+    setPuzzleSource(source);
+    if (saved) restoreGameState(saved);
+  }, [preview, restoreGameState]);
+
+  // Last puzzle request, repeated by the Retry button
+  const lastRequestRef = useRef<(() => Promise<PuzzleResponse>) | null>(null);
+  // Counts loads, so a response that arrives after a newer load started is dropped
+  const loadCountRef = useRef(0);
+
+  // Replace the current game with a newly fetched puzzle, showing loading and error states
+  const loadPuzzle = useCallback(async (request: () => Promise<PuzzleResponse>, notice: string | null = null) => {
+    const loadId = ++loadCountRef.current;
+    lastRequestRef.current = request;
+    resetGameState();
+    setStatus("loading");
+    setLoadError(null);
+    setPuzzleNotice(notice);
+    try {
+      const response = await request();
+      if (loadId !== loadCountRef.current) return;
+      await startPuzzle(response);
+      setStatus("playing");
+    } catch (error) {
+      if (loadId !== loadCountRef.current) return;
+      setLoadError({
+        offline: !navigator.onLine,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      setStatus("error");
+    }
+  }, [resetGameState, startPuzzle]);
+
+  const retryLoad = useCallback(() => {
+    if (lastRequestRef.current) loadPuzzle(lastRequestRef.current);
+  }, [loadPuzzle]);
+
+  // Reload the current puzzle after it was edited mid-game; its saved progress is discarded on load
+  const reloadChangedPuzzle = useCallback((puzzleId: string) => {
+    // A preview's puzzle comes with the page, so fetch the page again
+    if (preview) {
+      window.location.reload();
+      return;
+    }
+    const request = isCalendarDate(puzzleId) ? () => fetchPuzzleByDate(puzzleId) : lastRequestRef.current;
+    if (request) loadPuzzle(request, PUZZLE_UPDATED_NOTICE);
+  }, [preview, loadPuzzle]);
+
+  // Run a request against the current puzzle version; returns null if the puzzle changed and is reloading
+  const requestForPuzzle = useCallback(async <T,>(puzzleId: string, request: () => Promise<T>): Promise<T | null> => {
+    try {
+      return await request();
+    } catch (error) {
+      if (!(error instanceof PuzzleChangedError)) throw error;
+      reloadChangedPuzzle(puzzleId);
+      return null;
+    }
+  }, [reloadChangedPuzzle]);
+
+  // Load the previewed puzzle, the linked date's puzzle, or today's (used on initial page load)
+  const initGame = useCallback(() => {
+    if (preview) return loadPuzzle(async () => preview.puzzle);
+    return loadPuzzle(() => (puzzleDate ? fetchPuzzleByDate(puzzleDate) : fetchTodaysPuzzle()));
+  }, [preview, puzzleDate, loadPuzzle]);
+
+  // Replay the current puzzle in a freshly shuffled layout (used by Play Again)
+  // Previews replay the same layout, since a shuffled copy would have to be built by the server
+  const loadPracticePuzzle = useCallback(() => {
+    if (preview) return loadPuzzle(async () => preview.puzzle);
+    const archiveDate = archiveDateRef.current;
+    return loadPuzzle(() => (archiveDate ? fetchPuzzleByDate(archiveDate, true) : fetchTodaysPuzzle(true)));
+  }, [preview, loadPuzzle]);
+
+  // Point the address bar at an archived puzzle so it can be shared or bookmarked
+  const showArchiveUrl = useCallback((date: string) => {
+    archiveDateRef.current = date;
+    window.history.pushState(null, "", `/puzzle/${date}`);
+  }, []);
+
+  // Load a chosen past puzzle (used by the archive)
+  const loadArchivedPuzzle = useCallback((date: string) => {
+    setShowArchive(false);
+    showArchiveUrl(date);
+    return loadPuzzle(() => fetchPuzzleByDate(date));
+  }, [loadPuzzle, showArchiveUrl]);
+
+  // Load a random past puzzle (used by the archive's Random button)
+  const loadRandomPastPuzzle = useCallback(() => {
+    setShowArchive(false);
+    return loadPuzzle(async () => {
+      const response = await fetchRandomPastPuzzle();
+      // Daily puzzle IDs are their date
+      if (isCalendarDate(response.puzzle.id)) {
+        showArchiveUrl(response.puzzle.id);
+      }
+      return response;
+    });
+  }, [loadPuzzle, showArchiveUrl]);
 
   useEffect(() => {
+    if (!preview) pruneSavedGames();
     initGame();
-  }, [initGame]);
+  }, [preview, initGame]);
+
+  // Back and Forward after opening archived puzzles: load the puzzle the address bar now points at
+  useEffect(() => {
+    if (preview) return;
+    const handlePopState = () => {
+      const date = window.location.pathname.match(/^\/puzzle\/([^/]+)$/)?.[1] ?? null;
+      archiveDateRef.current = date && isCalendarDate(date) ? date : null;
+      const archiveDate = archiveDateRef.current;
+      loadPuzzle(() => (archiveDate ? fetchPuzzleByDate(archiveDate) : fetchTodaysPuzzle()));
+    };
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [preview, loadPuzzle]);
+
+  // Try again automatically when the connection comes back
+  useEffect(() => {
+    if (status !== "error") return;
+    window.addEventListener("online", retryLoad);
+    return () => window.removeEventListener("online", retryLoad);
+  }, [status, retryLoad]);
+
+  // Save progress after every change so a reload resumes the same game
+  useEffect(() => {
+    if (!gameData || preview) return;
+    saveGame(gameData.id, {
+      version: gameData.version,
+      selections,
+      selectionOrder,
+      score,
+      guesses,
+      hasUsedCheck,
+      hints,
+      gameState,
+      failedGuesses: Object.fromEntries(
+        Object.entries(failedGuesses).map(([rowIdx, wordIndices]) => [rowIdx, [...wordIndices]])
+      ),
+      solvedRows: [...solvedRows],
+      rowsNeedingReselection: [...rowsNeedingReselection],
+      rowCheckStatuses,
+      rowReveals,
+      solution,
+      gameResult,
+      checkInProgress: gamePhase === "checking",
+    });
+  }, [
+    gameData,
+    selections,
+    selectionOrder,
+    score,
+    guesses,
+    hasUsedCheck,
+    hints,
+    gameState,
+    failedGuesses,
+    solvedRows,
+    rowsNeedingReselection,
+    rowCheckStatuses,
+    rowReveals,
+    solution,
+    gameResult,
+    gamePhase,
+    preview,
+  ]);
+
+  // Record finished games in the local stats history
+  useEffect(() => {
+    if (!gameData || !gameResult || gamePhase !== "ended" || preview) return;
+    recordGame(gameData.id, gameResult, score, hints.map((hint) => hint.kind));
+  }, [gameData, gameResult, gamePhase, score, hints, preview]);
 
   // --- Animation Sequences ---
 
-  const runWinSequence = useCallback(async (winnerRowIndex: number) => {
-    if (isAnimatingRef.current) return;
-    isAnimatingRef.current = true;
+  // Stop the running sequence when the game unmounts
+  useEffect(() => () => timelineRef.current?.cancel(), []);
+
+  /**
+   * Run a sequence on a new timeline, which loading another puzzle or unmounting cancels
+   * A cancelled sequence just stops. Any other error (a failed request) is shown and read out as
+   * failureMessage, and the board is playable again
+   */
+  const runTimeline = useCallback(async (
+    sequence: (timeline: Timeline) => Promise<void>,
+    failureMessage: string
+  ) => {
+    const timeline = createTimeline();
+    timelineRef.current = timeline;
+    // With reduced motion every sequence starts skipped, so it runs straight to its end state
+    if (reduceMotion) timeline.skip();
+    try {
+      await sequence(timeline);
+    } catch (error) {
+      if (error instanceof TimelineCancelledError) return;
+      console.error(failureMessage, error);
+      setGamePhase("playing");
+      setPuzzleNotice(failureMessage);
+      setAnnouncement(failureMessage);
+    } finally {
+      if (timelineRef.current === timeline) timelineRef.current = null;
+    }
+  }, [reduceMotion]);
+
+  // Jump to the end of the running reveal (the grid and the Skip button call this)
+  const skipAnimation = useCallback(() => {
+    timelineRef.current?.skip();
+  }, []);
+
+  const runWinSequence = useCallback(async (timeline: Timeline, winnerRowIndex: number) => {
     setGamePhase("animating");
     setGameResult("won");
 
     // 1. Winner row: slide cards (only if not already revealed)
     if (rowStates[winnerRowIndex] !== "revealed") {
       setRowStates((prev) => ({ ...prev, [winnerRowIndex]: "sliding" }));
-      await delay(SLIDE_DURATION);
+      await timeline.wait(SLIDE_DURATION);
       setRowStates((prev) => ({ ...prev, [winnerRowIndex]: "revealed" }));
     }
-    await delay(WIN_PAUSE);
+    await timeline.wait(WIN_PAUSE);
 
     // 2. Reveal other rows sequentially (skip already revealed)
     const otherRows = [0, 1, 2, 3].filter((i) => i !== winnerRowIndex);
     for (const rowIdx of otherRows) {
       if (rowStates[rowIdx] === "revealed") continue; // Skip already revealed
       setRowStates((prev) => ({ ...prev, [rowIdx]: "sliding" }));
-      await delay(SLIDE_DURATION);
+      await timeline.wait(SLIDE_DURATION);
       setRowStates((prev) => ({ ...prev, [rowIdx]: "revealed" }));
-      await delay(CATEGORY_FADE_DURATION);
+      await timeline.wait(CATEGORY_FADE_DURATION);
     }
 
     // 3. Reorder rows: winner to bottom
-    await delay(500);
-    const newOrder = new Array(4).fill(0);
-    let pos = 0;
-    for (let i = 0; i < 4; i++) {
-      if (i !== winnerRowIndex) {
-        newOrder[i] = pos;
-        pos++;
-      }
-    }
-    newOrder[winnerRowIndex] = 3;
-    setVisualRowOrder(newOrder);
-    await delay(ROW_REORDER_DURATION);
+    await timeline.wait(500);
+    setVisualRowOrder(getEndedRowOrder(winnerRowIndex));
+    await timeline.wait(ROW_REORDER_DURATION);
 
     // 4. Show meta overlay
     setShowMetaOverlay(true);
     setGamePhase("ended");
+
+    // 5. Open stats once the meta category has been on screen for a moment (even after a skip)
+    await timeline.wait(STATS_DELAY, false);
+    setShowStats(true);
   }, [rowStates]);
 
-  const runLossSequence = useCallback(async (ultimateRowIndex: number) => {
-    if (isAnimatingRef.current) return;
-    isAnimatingRef.current = true;
+  // lossSolution comes with the answer that used up the last strike
+  const runLossSequence = useCallback(async (timeline: Timeline, lossSolution: PuzzleSolution) => {
     setGamePhase("animating");
     setGameResult("lost");
+    applySolution(lossSolution);
+    const ultimateRowIndex = lossSolution.ultimateOutlierRowIndex;
 
-    await delay(500);
+    await timeline.wait(500);
 
     // Reveal all rows sequentially (skip already revealed), ultimate winner last
     const rowOrder = [0, 1, 2, 3].filter((i) => i !== ultimateRowIndex);
@@ -338,109 +839,120 @@ export default function Game() {
     for (const rowIdx of rowOrder) {
       if (rowStates[rowIdx] === "revealed") continue; // Skip already revealed
       setRowStates((prev) => ({ ...prev, [rowIdx]: "sliding" }));
-      await delay(SLIDE_DURATION);
+      await timeline.wait(SLIDE_DURATION);
       setRowStates((prev) => ({ ...prev, [rowIdx]: "revealed" }));
-      await delay(CATEGORY_FADE_DURATION);
+      await timeline.wait(CATEGORY_FADE_DURATION);
     }
 
     // Reorder rows: ultimate winner to bottom
-    await delay(500);
-    const newOrder = new Array(4).fill(0);
-    let pos = 0;
-    for (let i = 0; i < 4; i++) {
-      if (i !== ultimateRowIndex) {
-        newOrder[i] = pos;
-        pos++;
-      }
-    }
-    newOrder[ultimateRowIndex] = 3;
-    setVisualRowOrder(newOrder);
-    await delay(ROW_REORDER_DURATION);
+    await timeline.wait(500);
+    setVisualRowOrder(getEndedRowOrder(ultimateRowIndex));
+    await timeline.wait(ROW_REORDER_DURATION);
 
     // Show meta overlay
     setShowMetaOverlay(true);
     setGamePhase("ended");
-  }, [rowStates]);
+
+    // Open stats once the meta category has been on screen for a moment (even after a skip)
+    await timeline.wait(STATS_DELAY, false);
+    setShowStats(true);
+  }, [rowStates, applySolution]);
 
   // --- Check Mode: Grade row selections one by one ---
   const runCheckSequence = useCallback(async () => {
-    if (isAnimatingRef.current || !gameData) return;
-    isAnimatingRef.current = true;
-    setGamePhase("checking");
-    setFeedbackMessage(null);
-
-    // Mark that Check was used - Stand Out mode is now forfeit
-    setHasUsedCheck(true);
-
-    // Convert any existing stars to circles (forfeit Stand Out mode rewards)
-    // Use scoreRef to ensure we have the latest score (avoids stale closure issues)
-    let currentScore = scoreRef.current.map(item => ({
-      ...item,
-      shape: "circle" as ScoreShape
-    }));
-    setScore(currentScore);
-    scoreRef.current = currentScore;
-
-    for (let rowIndex = 0; rowIndex < 4; rowIndex++) {
-      // Skip already revealed rows
-      if (rowCheckStatuses[rowIndex] === "revealed") continue;
-
-      const selectedIdx = selections[rowIndex];
-      if (selectedIdx === undefined) continue;
-
-      const isCorrect = selectedIdx === gameData.rows[rowIndex].outlierIndex;
-
-      if (isCorrect) {
-        // Slide animation → reveal category (stays purple, no strike)
-        setRowStates((prev) => ({ ...prev, [rowIndex]: "sliding" }));
-        await delay(SLIDE_DURATION);
-        setRowStates((prev) => ({ ...prev, [rowIndex]: "revealed" }));
-        setRowCheckStatuses((prev) => ({ ...prev, [rowIndex]: "revealed" }));
-        // Note: Don't set solvedRows here - that's only for Standout partial (amber)
-        await delay(CATEGORY_FADE_DURATION);
-      } else {
-        // Wrong: flash red, add strike, clear selection
-        setFailedGuesses((prev) => {
-          const set = new Set(prev[rowIndex] || []);
-          set.add(selectedIdx);
-          return { ...prev, [rowIndex]: set };
-        });
-
-        currentScore = [...currentScore, { color: "RED" as ScoreColor, shape: "circle" as ScoreShape }];
-        setScore(currentScore);
-        scoreRef.current = currentScore;
-
-        setSelections((prev) => {
-          const next = { ...prev };
-          delete next[rowIndex];
-          return next;
-        });
-        // Mark row as needing reselection (keep in selectionOrder for slot position)
-        setRowsNeedingReselection((prev) => new Set([...prev, rowIndex]));
-
-        // Show feedback message based on strikes
-        setFeedbackMessage(currentScore.length === 2 ? "lastguess" : "wrong");
-
-        await delay(WRONG_FLASH_DURATION);
-
-        if (currentScore.length >= SCORE_LIMIT) {
-          // Reset animation flag so runLossSequence can execute
-          isAnimatingRef.current = false;
-          await runLossSequence(gameData.ultimateOutlierRowIndex);
-          return;
+    if (!gameData || timelineRef.current) return;
+    await runTimeline(async (timeline) => {
+      setGamePhase("checking");
+      setFeedbackMessage(null);
+
+      // Grade all pending rows in one request, then animate the results row by row
+      const pendingSelections: Record<number, number> = {};
+      for (let rowIndex = 0; rowIndex < 4; rowIndex++) {
+        // Skip already revealed rows
+        if (rowCheckStatuses[rowIndex] === "revealed") continue;
+        if (selections[rowIndex] === undefined) continue;
+        pendingSelections[rowIndex] = selections[rowIndex];
+      }
+      const response = await timeline.track(
+        requestForPuzzle(gameData.id, () =>
+          checkSelections(gameData, pendingSelections, gameStateRef.current, previewToken)
+        )
+      );
+      if (!response) return;
+      updateGameState(response.state);
+
+      // Mark that Check was used - Stand Out mode is now forfeit
+      // (only once the server has graded it, so a failed request costs nothing)
+      setHasUsedCheck(true);
+
+      // Convert any existing stars to circles (forfeit Stand Out mode rewards)
+      let currentScore = forfeitStandOut();
+
+      for (const { rowIndex, correct, reveal } of response.results) {
+        const selectedIdx = pendingSelections[rowIndex];
+        setGuesses((prev) => [...prev, { shape: "circle", outcome: correct ? "correct" : "wrong" }]);
+
+        if (correct && reveal) {
+          // Slide animation → reveal category (stays purple, no strike)
+          setRowReveals((prev) => ({ ...prev, [rowIndex]: reveal }));
+          setAnnouncement(`Row ${rowIndex + 1} correct: ${reveal.category}`);
+          setRowStates((prev) => ({ ...prev, [rowIndex]: "sliding" }));
+          await timeline.wait(SLIDE_DURATION);
+          setRowStates((prev) => ({ ...prev, [rowIndex]: "revealed" }));
+          setRowCheckStatuses((prev) => ({ ...prev, [rowIndex]: "revealed" }));
+          // Note: Don't set solvedRows here - that's only for Standout partial (amber)
+          await timeline.wait(CATEGORY_FADE_DURATION);
+        } else {
+          // Wrong: flash red, add strike, clear selection
+          setAnnouncement(`Row ${rowIndex + 1} wrong. Strikes: ${currentScore.length + 1} of ${SCORE_LIMIT}`);
+          setFailedGuesses((prev) => {
+            const set = new Set(prev[rowIndex] || []);
+            set.add(selectedIdx);
+            return { ...prev, [rowIndex]: set };
+          });
+
+          currentScore = [...currentScore, { color: "RED" as ScoreColor, shape: "circle" as ScoreShape }];
+          setScore(currentScore);
+          scoreRef.current = currentScore;
+
+          setSelections((prev) => {
+            const next = { ...prev };
+            delete next[rowIndex];
+            return next;
+          });
+          // Mark row as needing reselection (keep in selectionOrder for slot position)
+          setRowsNeedingReselection((prev) => new Set([...prev, rowIndex]));
+
+          // Show feedback message based on strikes
+          setFeedbackMessage(currentScore.length === 2 ? "lastguess" : "wrong");
+
+          await timeline.wait(WRONG_FLASH_DURATION);
+
+          if (currentScore.length >= SCORE_LIMIT) {
+            // The loss reveal carries on in the same timeline
+            await runLossSequence(timeline, getLossSolution(response));
+            return;
+          }
         }
+
+        await timeline.wait(ROW_CHECK_DELAY);
       }
 
-      await delay(ROW_CHECK_DELAY);
-    }
+      setGamePhase("playing");
+    }, "Couldn't check your answers. Try again.");
+  }, [gameData, selections, rowCheckStatuses, runTimeline, runLossSequence, forfeitStandOut, requestForPuzzle, updateGameState, previewToken]);
 
-    isAnimatingRef.current = false;
-    setGamePhase("playing");
-  }, [gameData, selections, rowCheckStatuses, runLossSequence]);
+  // Finish a Check that was interrupted by a reload
+  useEffect(() => {
+    if (!resumeCheck) return;
+    setResumeCheck(false);
+    runCheckSequence();
+  }, [resumeCheck, runCheckSequence]);
 
   // --- Standout Mode: Guess the ultimate oddest one out ---
   const handleStandoutGuess = useCallback(async (rowIndex: number) => {
-    if (!gameData) return;
+    // A partial row can't hold the Oddest, and the server won't grade it again
+    if (!gameData || timelineRef.current || solvedRows.has(rowIndex)) return;
 
     // Clear the puzzle selection after any guess attempt
     setOddestPuzzleSelection(null);
@@ -448,69 +960,155 @@ export default function Game() {
     const isRevealed = rowCheckStatuses[rowIndex] === "revealed";
     // For revealed rows, use the outlier index since that's what's displayed in OddestPuzzleRow
     const selectedIdx = isRevealed
-      ? gameData.rows[rowIndex].outlierIndex
+      ? rowReveals[rowIndex].outlierIndex
       : selections[rowIndex];
-    const isRowOutlier = selectedIdx === gameData.rows[rowIndex].outlierIndex;
-    const isUltimate = rowIndex === gameData.ultimateOutlierRowIndex;
-
-    // Use stars only if Check was never used (pure Stand Out mode)
-    const scoreShape: ScoreShape = hasUsedCheck ? "circle" : "star";
-
-    if (isUltimate && isRowOutlier) {
-      // WIN!
-      const newScore = [...scoreRef.current, { color: "PURPLE" as ScoreColor, shape: scoreShape }];
-      setScore(newScore);
-      scoreRef.current = newScore;
-      await runWinSequence(rowIndex);
-      return;
-    }
 
-    if (isRowOutlier) {
-      // Correct outlier but not ultimate → YELLOW
-      const newScore = [...scoreRef.current, { color: "YELLOW" as ScoreColor, shape: scoreShape }];
-      setScore(newScore);
-      scoreRef.current = newScore;
-      setSolvedRows((prev) => new Set([...prev, rowIndex]));
-
-      // Reveal this row if not already revealed
-      if (!isRevealed) {
-        setRowStates((prev) => ({ ...prev, [rowIndex]: "sliding" }));
-        await delay(SLIDE_DURATION);
-        setRowStates((prev) => ({ ...prev, [rowIndex]: "revealed" }));
-        setRowCheckStatuses((prev) => ({ ...prev, [rowIndex]: "revealed" }));
+    await runTimeline(async (timeline) => {
+      // Block further input while the server grades the guess
+      // ("checking" is reserved for the Check sequence, which resumes after a reload)
+      setGamePhase("animating");
+      const result = await timeline.track(
+        requestForPuzzle(gameData.id, () =>
+          submitStandoutGuess(gameData, rowIndex, selectedIdx, gameStateRef.current, previewToken)
+        )
+      );
+      if (!result) return;
+      updateGameState(result.state);
+      setGamePhase("playing");
+
+      // Use stars only in pure Stand Out mode (no Check, no hint paid for with the star)
+      const scoreShape: ScoreShape = canWinStar ? "star" : "circle";
+      setGuesses((prev) => [...prev, { shape: scoreShape, outcome: result.outcome }]);
+
+      if (result.outcome === "win" && result.solution) {
+        // WIN!
+        const newScore = [...scoreRef.current, { color: "PURPLE" as ScoreColor, shape: scoreShape }];
+        setScore(newScore);
+        scoreRef.current = newScore;
+        applySolution(result.solution);
+        await runWinSequence(timeline, rowIndex);
+        return;
       }
 
-      setFeedbackMessage(newScore.length === 2 ? "lastguess" : "partial");
+      if (result.outcome === "partial" && result.reveal) {
+        // Correct outlier but not ultimate → YELLOW
+        const newScore = [...scoreRef.current, { color: "YELLOW" as ScoreColor, shape: scoreShape }];
+        setScore(newScore);
+        scoreRef.current = newScore;
+        setSolvedRows((prev) => new Set([...prev, rowIndex]));
+        const reveal = result.reveal;
+        setRowReveals((prev) => ({ ...prev, [rowIndex]: reveal }));
+
+        // Reveal this row if not already revealed
+        if (!isRevealed) {
+          setRowStates((prev) => ({ ...prev, [rowIndex]: "sliding" }));
+          await timeline.wait(SLIDE_DURATION);
+          setRowStates((prev) => ({ ...prev, [rowIndex]: "revealed" }));
+          setRowCheckStatuses((prev) => ({ ...prev, [rowIndex]: "revealed" }));
+        }
 
-      if (newScore.length >= SCORE_LIMIT) {
-        await runLossSequence(gameData.ultimateOutlierRowIndex);
-      }
-    } else {
-      // Wrong → RED (only possible on unrevealed rows)
-      const newScore = [...scoreRef.current, { color: "RED" as ScoreColor, shape: scoreShape }];
-      setScore(newScore);
-      scoreRef.current = newScore;
-      setFeedbackMessage(newScore.length === 2 ? "lastguess" : "wrong");
-
-      setFailedGuesses((prev) => {
-        const set = new Set(prev[rowIndex] || []);
-        set.add(selectedIdx);
-        return { ...prev, [rowIndex]: set };
-      });
+        setFeedbackMessage(newScore.length === 2 ? "lastguess" : "partial");
 
-      setSelections((prev) => {
-        const next = { ...prev };
-        delete next[rowIndex];
-        return next;
-      });
-      // Remove from selection order when cleared
-      setSelectionOrder((prev) => prev.filter((idx) => idx !== rowIndex));
+        if (newScore.length >= SCORE_LIMIT) {
+          await runLossSequence(timeline, getLossSolution(result));
+        }
+      } else {
+        // Wrong → RED (only possible on unrevealed rows)
+        const newScore = [...scoreRef.current, { color: "RED" as ScoreColor, shape: scoreShape }];
+        setScore(newScore);
+        scoreRef.current = newScore;
+        setFeedbackMessage(newScore.length === 2 ? "lastguess" : "wrong");
 
-      if (newScore.length >= SCORE_LIMIT) {
-        await runLossSequence(gameData.ultimateOutlierRowIndex);
+        setFailedGuesses((prev) => {
+          const set = new Set(prev[rowIndex] || []);
+          set.add(selectedIdx);
+          return { ...prev, [rowIndex]: set };
+        });
+
+        setSelections((prev) => {
+          const next = { ...prev };
+          delete next[rowIndex];
+          return next;
+        });
+        // Remove from selection order when cleared
+        setSelectionOrder((prev) => prev.filter((idx) => idx !== rowIndex));
+
+        if (newScore.length >= SCORE_LIMIT) {
+          await runLossSequence(timeline, getLossSolution(result));
+        }
       }
+    }, "Couldn't check your guess. Try again.");
+  }, [gameData, selections, rowCheckStatuses, rowReveals, solvedRows, canWinStar, runTimeline, runWinSequence, runLossSequence, applySolution, requestForPuzzle, updateGameState, previewToken]);
+
+  // --- Hints: each costs a strike or the Stand Out star ---
+
+  // What hints have shown so far, by row
+  const eliminatedWords: Record<number, Set<number>> = {};
+  const hintCategories: Record<number, string> = {};
+  for (const hint of hints) {
+    if (hint.kind === "eliminate") {
+      (eliminatedWords[hint.rowIndex] ??= new Set()).add(hint.wordIndex);
+    } else if (hint.kind === "category") {
+      hintCategories[hint.rowIndex] = hint.category;
     }
-  }, [gameData, selections, rowCheckStatuses, hasUsedCheck, runWinSequence, runLossSequence]);
+  }
+  // Words the player knows aren't a row's outlier: wrong picks and hint eliminations
+  const getKnownWrongWords = (rowIdx: number) =>
+    new Set([...(failedGuesses[rowIdx] ?? []), ...(eliminatedWords[rowIdx] ?? [])]);
+
+  // A strike that ended the game would make the hint pointless
+  const canAffordStrike = score.length < SCORE_LIMIT - 1;
+
+  const takeHint = useCallback(async (request: HintRequest) => {
+    if (!gameData || timelineRef.current) return;
+    if (getHintCost(request.kind, canWinStar) === "strike" && scoreRef.current.length >= SCORE_LIMIT - 1) return;
+
+    await runTimeline(async (timeline) => {
+      setGamePhase("animating");
+      const response = await timeline.track(
+        requestForPuzzle(gameData.id, () => requestHint(gameData, request, gameStateRef.current, previewToken))
+      );
+      if (!response) return;
+      // Nothing is charged until the server has charged it
+      const { hint, cost } = response;
+      updateGameState(response.state);
+      setGamePhase("playing");
+
+      if (cost === "strike") {
+        const newScore = [...scoreRef.current, { color: "RED" as ScoreColor, shape: "circle" as ScoreShape, hint: hint.kind }];
+        setScore(newScore);
+        scoreRef.current = newScore;
+        if (newScore.length === SCORE_LIMIT - 1) setFeedbackMessage("lastguess");
+      } else {
+        forfeitStandOut();
+      }
+      setHints((prev) => [...prev, { ...hint, cost }]);
+      setAnnouncement(describeHint(hint, gameData.rows));
+
+      // A removed word can't stay selected
+      if (hint.kind === "eliminate" && selections[hint.rowIndex] === hint.wordIndex) {
+        setOddestPuzzleSelection(null);
+        setSelections((prev) => {
+          const next = { ...prev };
+          delete next[hint.rowIndex];
+          return next;
+        });
+        setSelectionOrder((prev) => prev.filter((idx) => idx !== hint.rowIndex));
+      }
+    }, "Couldn't get a hint. Try again.");
+  }, [gameData, selections, canWinStar, runTimeline, forfeitStandOut, requestForPuzzle, updateGameState, previewToken]);
+
+  const handleHint = (kind: HintKind, rowIndex: number | null) => {
+    if (kind === "meta-letter") {
+      takeHint({ kind });
+    } else if (rowIndex !== null) {
+      takeHint(
+        kind === "category"
+          ? { kind, rowIndex }
+          : { kind, rowIndex, exclude: [...getKnownWrongWords(rowIndex)] }
+      );
+    }
+  };
 
   // --- Game Logic ---
 
@@ -528,6 +1126,60 @@ export default function Game() {
   // Check if any rows have been revealed (for tip logic)
   const hasAnyReveals = Object.values(rowCheckStatuses).some(s => s === "revealed");
 
+  // Announce tip changes (the tip is frozen during Check, which announces each row instead)
+  const currentTip = gamePhase === "checking" || gameResult
+    ? null
+    : getTip(feedbackMessage, selectionsInUnrevealedRows, unrevealedRowCount, allRowsSelected, hasAnyReveals);
+  const tipAnnouncement = currentTip
+    ? currentTip.splitText ? `${currentTip.splitText.redPart} ${currentTip.splitText.purplePart}` : currentTip.text
+    : null;
+  const strikeCount = score.length;
+  useEffect(() => {
+    if (!tipAnnouncement) return;
+    // After a guess, say how many strikes are used so a repeated tip is still read out
+    setAnnouncement(
+      feedbackMessage ? `${tipAnnouncement} Strikes: ${strikeCount} of ${SCORE_LIMIT}` : tipAnnouncement
+    );
+  }, [tipAnnouncement, feedbackMessage, strikeCount]);
+
+  // Announce the result once the reveal has finished
+  useEffect(() => {
+    if (gamePhase !== "ended" || !gameResult || !gameData || !solution) return;
+    const ultimateRow = solution.ultimateOutlierRowIndex;
+    const ultimateWord = gameData.rows[ultimateRow].words[solution.rows[ultimateRow].outlierIndex].text;
+    setAnnouncement(
+      `${gameResult === "won" ? "Victory!" : "Game over."} The Oddest One Out is ${ultimateWord}: ${solution.metaCategory}`
+    );
+  }, [gamePhase, gameResult, gameData, solution]);
+
+  // Keyboard shortcuts: C to Check, O to jump to the Oddest row, G back to the grid
+  const isDialogOpen = showInfo || showStats || showArchive || showStandoutInfo;
+  const canCheck = allRowsSelected && gamePhase === "playing";
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isDialogOpen || e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      switch (e.key.toLowerCase()) {
+        case "c":
+          if (!canCheck) return;
+          runCheckSequence();
+          break;
+        case "o":
+          focusFirstCard(oddestRowRef.current);
+          break;
+        case "g":
+          focusFirstCard(gridRef.current);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isDialogOpen, canCheck, runCheckSequence]);
+
   // All puzzle slots filled = every row is either revealed OR has a pending selection
   const allPuzzleSlotsFilled = gameData
     ? [0, 1, 2, 3].every((rowIdx) =>
@@ -536,6 +1188,46 @@ export default function Game() {
       )
     : false;
 
+  // The win/loss reveal is playing; tapping the grid skips to the end
+  const isRevealing = gameResult !== null && gamePhase === "animating";
+
+  // A grid row whose wrong pick was cleared glows until a new word is picked
+  const rowNeedsAttention = (rowIdx: number) =>
+    rowCheckStatuses[rowIdx] === "pending" &&
+    selections[rowIdx] === undefined &&
+    (failedGuesses[rowIdx]?.size ?? 0) > 0;
+
+  // Whether anything on screen uses the pulse glow (the Oddest Puzzle Row or a row needing attention)
+  const isGlowing = !gameResult && (
+    allPuzzleSlotsFilled ||
+    oddestPuzzleSelection !== null ||
+    [0, 1, 2, 3].some(rowNeedsAttention)
+  );
+
+  // Synced glow animation using CSS custom property
+  // The frame loop only runs while something glows; with reduced motion the glow holds steady
+  useEffect(() => {
+    if (!isGlowing) return;
+    if (reduceMotion) {
+      document.documentElement.style.setProperty('--glow-intensity', '0.5');
+      return;
+    }
+
+    const GLOW_DURATION = 1500; // ms, matches animation duration
+    let animationId: number;
+
+    const updateGlow = () => {
+      const progress = (Date.now() % GLOW_DURATION) / GLOW_DURATION;
+      // Sine wave: 0 -> 1 -> 0 over the cycle
+      const intensity = Math.sin(progress * Math.PI);
+      document.documentElement.style.setProperty('--glow-intensity', String(intensity));
+      animationId = requestAnimationFrame(updateGlow);
+    };
+
+    updateGlow();
+    return () => cancelAnimationFrame(animationId);
+  }, [isGlowing, reduceMotion]);
+
   // Show Check button when all rows selected and game is in playing state
   const showCheckButton = allRowsSelected && gamePhase === "playing";
 
@@ -597,9 +1289,30 @@ export default function Game() {
 
   // --- Render ---
 
+  if (status === "error") {
+    return (
+      <div role="alert" className="min-h-screen flex flex-col items-center justify-center bg-stone-50 dark:bg-stone-900 p-4 text-center">
+        <h2 className="text-xl font-bold mb-2 text-stone-900 dark:text-stone-100">
+          {loadError?.offline ? "You're offline" : "Couldn't load the puzzle"}
+        </h2>
+        <p className="text-sm text-stone-600 dark:text-stone-400 mb-6 max-w-sm">
+          {loadError?.offline
+            ? "Check your connection. The puzzle will load as soon as you're back online."
+            : loadError?.message}
+        </p>
+        <button
+          onClick={retryLoad}
+          className="px-6 py-2 rounded-full bg-violet-500 hover:bg-violet-600 text-white font-bold text-sm transition-colors"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
   if (!gameData) {
     return (
-      <div className="min-h-screen flex flex-col items-center justify-center bg-stone-50 dark:bg-stone-900 p-4 text-center">
+      <div role="status" className="min-h-screen flex flex-col items-center justify-center bg-stone-50 dark:bg-stone-900 p-4 text-center">
         <h2 className="text-xl font-bold mb-4 text-stone-900 dark:text-stone-100">
           Loading...
         </h2>
@@ -607,13 +1320,15 @@ export default function Game() {
     );
   }
 
-  const metaWordsWithStatus = gameData.rows
-    .map((r, idx) => ({
-      text: r.words[r.outlierIndex].text,
-      rowIndex: idx,
-      isPartial: solvedRows.has(idx)
-    }))
-    .filter((item) => item.rowIndex !== gameData.ultimateOutlierRowIndex);
+  const metaWordsWithStatus = solution
+    ? gameData.rows
+        .map((r, idx) => ({
+          text: r.words[solution.rows[idx].outlierIndex].text,
+          rowIndex: idx,
+          isPartial: solvedRows.has(idx)
+        }))
+        .filter((item) => item.rowIndex !== solution.ultimateOutlierRowIndex)
+    : [];
 
   return (
     <div className="min-h-screen bg-stone-50 dark:bg-stone-900 flex flex-col items-center py-4 sm:py-8 px-3 sm:px-6 transition-colors duration-300">
@@ -631,46 +1346,45 @@ export default function Game() {
         }
       `}</style>
 
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
       {/* Navbar */}
       <nav className="w-full max-w-2xl flex items-center justify-between mb-4 sm:mb-6">
-        <button
-          onClick={loadRandomPastPuzzle}
-          className="text-sm font-medium text-stone-600 dark:text-stone-400 hover:text-violet-500 dark:hover:text-violet-400 transition-colors"
-          aria-label="Play Archived Puzzles"
-        >
-          Play Archived Puzzles
-        </button>
+        {/* Previews stay on their one puzzle */}
+        {preview ? (
+          <span className="text-sm font-bold text-violet-500 uppercase tracking-widest">Preview</span>
+        ) : (
+          <button
+            onClick={() => setShowArchive(true)}
+            className="text-sm font-medium text-stone-600 dark:text-stone-400 hover:text-violet-500 dark:hover:text-violet-400 transition-colors"
+            aria-label="Play Archived Puzzles"
+          >
+            Play Archived Puzzles
+          </button>
+        )}
         <div className="flex items-center gap-3">
           <button
             onClick={async () => {
-              let shareText = 'Can you find the Oddest1Out?';
-
-              if (gameResult === 'won') {
-                const strikes = score.filter(s => s.color !== 'PURPLE').length;
-                const hasStars = score.some(s => s.shape === 'star');
-                if (strikes === 0 && hasStars) {
-                  shareText = 'I found the Oddest1Out in Stand Out mode with no strikes! ⭐ Can you beat that?';
-                } else if (strikes === 0) {
-                  shareText = 'I found the Oddest1Out with no strikes! Can you beat that?';
-                } else if (hasStars) {
-                  shareText = `I found the Oddest1Out in Stand Out mode! ⭐ Can you do better?`;
-                } else {
-                  shareText = `I found the Oddest1Out! Can you do better?`;
-                }
-              } else if (gameResult === 'lost') {
-                shareText = `I couldn't find the Oddest1Out today. Can you?`;
-              }
+              // The URL is part of the text so the result reads the same when shared or pasted
+              const shareText = buildShareText({
+                puzzleId: gameData.id,
+                gameResult,
+                score,
+                guesses,
+                hints: hints.map((hint) => hint.kind),
+                url: window.location.origin,
+              });
 
               try {
                 await navigator.share({
                   title: 'Oddest1Out',
                   text: shareText,
-                  url: window.location.href,
                 });
               } catch (err) {
                 // Fallback: copy to clipboard
-                const fullText = `${shareText}\n${window.location.href}`;
-                await navigator.clipboard.writeText(fullText);
+                await navigator.clipboard.writeText(shareText);
                 alert('Copied to clipboard!');
               }
             }}
@@ -691,6 +1405,70 @@ export default function Game() {
               />
             </svg>
           </button>
+          <button
+            onClick={() => setShowStats(true)}
+            className="p-2 text-stone-700 dark:text-stone-300 hover:text-violet-500 transition-colors"
+            aria-label="Statistics"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+              />
+            </svg>
+          </button>
+          <button
+            onClick={cycleColorTheme}
+            className="p-2 text-stone-700 dark:text-stone-300 hover:text-stone-900 dark:hover:text-white transition-colors"
+            aria-label={`Colour theme: ${COLOR_THEME_NAMES[colorTheme]}. Change theme`}
+            title={`Colour theme: ${COLOR_THEME_NAMES[colorTheme]}`}
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01"
+              />
+            </svg>
+          </button>
+          <button
+            onClick={() => setInstantReveal(!reduceMotion)}
+            className={`p-2 transition-colors ${
+              reduceMotion
+                ? "text-violet-500 hover:text-violet-600 dark:hover:text-violet-400"
+                : "text-stone-700 dark:text-stone-300 hover:text-stone-900 dark:hover:text-white"
+            }`}
+            aria-label="Instant reveal"
+            aria-pressed={reduceMotion}
+            title={reduceMotion ? "Instant reveal: on" : "Instant reveal: off"}
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M13 10V3L4 14h7v7l9-11h-7z"
+              />
+            </svg>
+          </button>
           <button
             onClick={() => setDarkMode(!darkMode)}
             className="p-2 text-stone-700 dark:text-stone-300 hover:text-stone-900 dark:hover:text-white transition-colors"
@@ -752,47 +1530,38 @@ export default function Game() {
         <h1 className="font-serif text-4xl sm:text-5xl font-bold text-stone-900 dark:text-stone-100 tracking-tight">
           Oddest<span className="text-violet-500">1</span>Out
         </h1>
+        {(gameData.difficulty || gameData.author) && (
+          <p className="text-xs text-stone-500 dark:text-stone-400 mt-1">
+            {[gameData.difficulty, gameData.author && `Puzzle by ${gameData.author}`].filter(Boolean).join(" · ")}
+          </p>
+        )}
+        {preview && (
+          <p className="text-xs text-violet-700 dark:text-violet-300 bg-violet-100 dark:bg-violet-500/20 rounded-md px-3 py-1 mt-2">
+            Preview of {dayjs(preview.puzzle.date).format("D MMMM YYYY")} · answers shown below, nothing is saved
+          </p>
+        )}
+        {puzzleNotice && (
+          <p className="text-xs text-sky-700 dark:text-sky-300 bg-sky-100 dark:bg-sky-500/20 rounded-md px-3 py-1 mt-2">
+            {puzzleNotice}{" "}
+            <button onClick={() => setPuzzleNotice(null)} className="font-bold underline">
+              OK
+            </button>
+          </p>
+        )}
+        {puzzleSource === "fallback" && (
+          <p className="text-xs text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-500/20 rounded-md px-3 py-1 mt-2">
+            We couldn&apos;t load the real puzzle, so this is a backup.{" "}
+            <button onClick={retryLoad} className="font-bold underline">
+              Try again
+            </button>
+          </p>
+        )}
         <div className="flex items-center space-x-2 text-xs sm:text-sm text-stone-500 dark:text-stone-400 uppercase tracking-widest font-semibold mt-3">
-          <span>Score:</span>
-          <div className="flex space-x-1">
-            {[...Array(SCORE_LIMIT)].map((_, i) => {
-              const item = score[i];
-
-              // Determine colors - using explicit class names to avoid Tailwind purging
-              let starColorClass = "text-stone-300 dark:text-stone-700";
-              let circleColorClass = "bg-stone-300 dark:bg-stone-700";
-
-              if (item?.color === "RED") {
-                starColorClass = "text-rose-500";
-                circleColorClass = "bg-rose-500";
-              } else if (item?.color === "YELLOW") {
-                starColorClass = "text-amber-400";
-                circleColorClass = "bg-amber-400";
-              } else if (item?.color === "PURPLE") {
-                starColorClass = "text-violet-500";
-                circleColorClass = "bg-violet-500";
-              }
-
-              // Show star for Stand Out mode, circle otherwise
-              if (item?.shape === "star") {
-                return (
-                  <svg
-                    key={i}
-                    className={`h-3.5 w-3.5 transition-colors duration-300 ${starColorClass}`}
-                    fill="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
-                  </svg>
-                );
-              }
-              return (
-                <div
-                  key={i}
-                  className={`h-3 w-3 rounded-full transition-colors duration-300 ${circleColorClass}`}
-                />
-              );
-            })}
+          <span aria-hidden="true">Score:</span>
+          <div className="flex items-center space-x-1" role="img" aria-label={describeScore(score, SCORE_LIMIT)}>
+            {[...Array(SCORE_LIMIT)].map((_, i) => (
+              <ScoreMark key={i} item={score[i]} />
+            ))}
           </div>
         </div>
       </header>
@@ -819,13 +1588,18 @@ export default function Game() {
               </p>
             )}
             <p className="text-stone-700 dark:text-stone-300 font-medium max-w-lg mx-auto text-sm sm:text-base">
-              {gameData.ultimateExplanation}
+              {solution?.ultimateExplanation}
             </p>
+            {hints.length > 0 && (
+              <p className="mt-2 text-xs sm:text-sm text-stone-500 dark:text-stone-400">
+                💡 {hints.length} {hints.length === 1 ? "hint" : "hints"} used
+              </p>
+            )}
             <button
-              onClick={initGame}
+              onClick={isRevealing ? skipAnimation : loadPracticePuzzle}
               className="mt-4 text-sm font-bold uppercase tracking-wider text-stone-900 dark:text-stone-100 border-b-2 border-stone-900 dark:border-stone-100 hover:text-stone-600 dark:hover:text-stone-400 hover:border-stone-600 dark:hover:border-stone-400 transition-colors"
             >
-              Play Again
+              {isRevealing ? "Skip" : "Play Again"}
             </button>
           </div>
         ) : (
@@ -896,17 +1670,23 @@ export default function Game() {
       </div>
 
       <div
-        className="max-w-2xl w-full relative"
+        ref={gridRef}
+        role="group"
+        aria-label="Puzzle grid"
+        className={`max-w-2xl w-full relative ${isRevealing ? "cursor-pointer" : ""}`}
         style={{ height: `calc(4 * (${rowHeight} + 1rem))` }}
+        onClick={isRevealing ? skipAnimation : undefined}
+        onKeyDown={moveCardFocus}
       >
         {/* Game Rows */}
         {gameData.rows.map((row, rIdx) => {
           const visualIndex = visualRowOrder[rIdx];
-          const isWinner = gameData.ultimateOutlierRowIndex === rIdx;
+          const isWinner = solution?.ultimateOutlierRowIndex === rIdx;
 
           return (
             <div
               key={row.id}
+              data-grid-row={visualIndex}
               className="absolute w-full"
               style={{
                 top: 0,
@@ -918,10 +1698,13 @@ export default function Game() {
               <div className="pb-4 h-[4.5rem] sm:h-20">
                 <GameRow
                   row={row}
+                  reveal={rowReveals[rIdx]}
                   rowIndex={rIdx}
                   displayState={rowStates[rIdx]}
                   selection={selections[rIdx]}
                   failedIndices={failedGuesses[rIdx] || new Set()}
+                  eliminatedIndices={eliminatedWords[rIdx] || new Set()}
+                  hintCategory={hintCategories[rIdx]}
                   gamePhase={gamePhase}
                   isUltimateWinner={isWinner}
                   isPhase2={allRowsSelected}
@@ -929,19 +1712,20 @@ export default function Game() {
                   slideDuration={SLIDE_DURATION}
                   onCardClick={handleCardClick}
                   rowCheckStatus={rowCheckStatuses[rIdx]}
-                  needsAttention={
-                    rowCheckStatuses[rIdx] === "pending" &&
-                    selections[rIdx] === undefined &&
-                    (failedGuesses[rIdx]?.size ?? 0) > 0
-                  }
+                  needsAttention={rowNeedsAttention(rIdx)}
                 />
+                {hintCategories[rIdx] && rowStates[rIdx] === "interactive" && (
+                  <span aria-hidden="true" className="absolute left-1 bottom-0 text-[10px] sm:text-xs leading-4 text-stone-500 dark:text-stone-400 uppercase tracking-wider">
+                    💡 {hintCategories[rIdx]}
+                  </span>
+                )}
               </div>
             </div>
           );
         })}
 
         {/* Meta Category Overlay */}
-        {showMetaOverlay && (
+        {showMetaOverlay && solution && (
           <div
             className="absolute z-20 pointer-events-none"
             style={{
@@ -954,7 +1738,7 @@ export default function Game() {
           >
             <div className="w-full h-full bg-stone-100 dark:bg-stone-800 border-2 border-violet-500 rounded-md flex flex-col items-center justify-center text-center p-3 select-none">
               <span className="font-bold text-stone-900 dark:text-stone-100 uppercase text-xs sm:text-sm tracking-widest leading-tight mb-3">
-                {gameData.metaCategory}
+                {solution.metaCategory}
               </span>
               <div className="flex flex-col space-y-2">
                 {metaWordsWithStatus.map((item) => (
@@ -962,7 +1746,7 @@ export default function Game() {
                     key={item.text}
                     className={
                       item.isPartial
-                        ? "text-amber-500 font-bold uppercase text-[10px] sm:text-xs"
+                        ? "text-amber-500 font-bold underline word-partial uppercase text-[10px] sm:text-xs"
                         : "text-stone-600 dark:text-stone-400 uppercase text-[10px] sm:text-xs font-medium"
                     }
                   >
@@ -1020,7 +1804,7 @@ export default function Game() {
 
       {/* Oddest Puzzle Row - always visible during gameplay */}
       {!gameResult && (
-        <div className="max-w-2xl w-full mt-6 sm:mt-8">
+        <div ref={oddestRowRef} className="max-w-2xl w-full mt-6 sm:mt-8" onKeyDown={moveCardFocus}>
           <OddestPuzzleRow
             selectedWords={selectionOrder
               .filter((rowIdx) => {
@@ -1049,7 +1833,7 @@ export default function Game() {
                 const row = gameData.rows[rowIdx];
                 // For revealed rows, show the correct outlier; for pending rows, show user's selection
                 const wordIndex = rowCheckStatuses[rowIdx] === "revealed"
-                  ? row.outlierIndex
+                  ? rowReveals[rowIdx].outlierIndex
                   : selections[rowIdx];
                 return {
                   rowIndex: rowIdx,
@@ -1058,6 +1842,7 @@ export default function Game() {
               })}
             allSelected={allPuzzleSlotsFilled}
             puzzleSelection={oddestPuzzleSelection}
+            partialRows={solvedRows}
             onCardClick={(rowIdx) => setOddestPuzzleSelection(rowIdx)}
             onCardSubmit={(rowIdx) => handleStandoutGuess(rowIdx)}
             disabled={gamePhase !== "playing"}
@@ -1071,42 +1856,63 @@ export default function Game() {
         </div>
       )}
 
+      {!gameResult && (
+        <HintPanel
+          getCost={(kind) => getHintCost(kind, canWinStar)}
+          canAffordStrike={canAffordStrike}
+          rowOptions={{
+            category: [0, 1, 2, 3].filter(
+              (rowIdx) => rowCheckStatuses[rowIdx] === "pending" && !hintCategories[rowIdx]
+            ),
+            eliminate: [0, 1, 2, 3].filter(
+              (rowIdx) =>
+                rowCheckStatuses[rowIdx] === "pending" && getKnownWrongWords(rowIdx).size < MAX_KNOWN_WRONG_PER_ROW
+            ),
+          }}
+          metaLetterAvailable={!hints.some((hint) => hint.kind === "meta-letter")}
+          taken={hints.map((hint) => describeHint(hint, gameData.rows))}
+          disabled={gamePhase !== "playing"}
+          onHint={handleHint}
+        />
+      )}
+
+      {/* Post-game review - shown once the win/loss sequence has finished */}
+      {gamePhase === "ended" && solution ? (
+        <ReviewPanel
+          rows={gameData.rows}
+          solution={solution}
+          failedGuesses={failedGuesses}
+          solvedRows={solvedRows}
+        />
+      ) : (
+        // Previews annotate every row's outlier and the ultimate row from the start
+        preview && (
+          <ReviewPanel
+            rows={gameData.rows}
+            solution={preview.solution}
+            failedGuesses={failedGuesses}
+            solvedRows={solvedRows}
+            title="Answer Key"
+          />
+        )
+      )}
+
       {showInfo && <InfoModal onClose={() => setShowInfo(false)} />}
+      {showArchive && (
+        <ArchiveModal
+          currentPuzzleId={gameData.id}
+          onSelect={loadArchivedPuzzle}
+          onRandom={loadRandomPastPuzzle}
+          onClose={() => setShowArchive(false)}
+        />
+      )}
 
-      {/* Standout Mode Info Modal */}
-      {showStandoutInfo && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50" onClick={() => setShowStandoutInfo(false)}>
-          <div
-            className="bg-white dark:bg-stone-800 rounded-xl p-6 max-w-md w-full shadow-xl"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <div className="flex justify-between items-start mb-4">
-              <h2 className="text-xl font-bold text-stone-900 dark:text-stone-100">
-                Stand Out Mode
-              </h2>
-              <button
-                onClick={() => setShowStandoutInfo(false)}
-                className="text-stone-400 hover:text-stone-600 dark:hover:text-stone-300"
-              >
-                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
-            </div>
-            <div className="text-stone-700 dark:text-stone-300 text-sm">
-              <p>
-                Skip the Check button and directly guess the Oddest of the Odd words without the help and penalty of a check. Earn a score in Stars to stand out to your friends.
-              </p>
-            </div>
-            <button
-              onClick={() => setShowStandoutInfo(false)}
-              className="mt-6 w-full py-2 bg-violet-500 hover:bg-violet-600 text-white font-bold rounded-lg transition-colors"
-            >
-              Got it
-            </button>
-          </div>
-        </div>
+      {showStats && (
+        <StatsModal stats={computeStats(loadHistory())} onClose={() => setShowStats(false)} />
       )}
+
+      {/* Standout Mode Info Modal */}
+      {showStandoutInfo && <StandoutInfoModal onClose={() => setShowStandoutInfo(false)} />}
     </div>
   );
 }
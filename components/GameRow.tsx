@@ -1,14 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { GameRow as GameRowType, RowDisplayState, GamePhase, CardState, RowCheckStatus } from '@/types';
+import { PublicGameRow, RowReveal, RowDisplayState, GamePhase, CardState, RowCheckStatus } from '@/types';
 import CategoryCard, { WordWithStatus } from '@/components/CategoryCard';
 import Card from '@/components/Card';
 
 interface GameRowProps {
-  row: GameRowType;
+  row: PublicGameRow;
+  reveal: RowReveal | undefined; // Answer for this row, known once the server has revealed it
   rowIndex: number;
   displayState: RowDisplayState;
   selection: number | undefined;
   failedIndices: Set<number>;
+  eliminatedIndices: Set<number>; // Words ruled out by hints
+  hintCategory?: string; // Category revealed by a hint before the row is solved
   gamePhase: GamePhase;
   isUltimateWinner: boolean;
   isPhase2: boolean;
@@ -21,10 +24,13 @@ interface GameRowProps {
 
 const GameRow: React.FC<GameRowProps> = ({
   row,
+  reveal,
   rowIndex,
   displayState,
   selection,
   failedIndices,
+  eliminatedIndices,
+  hintCategory,
   gamePhase,
   isUltimateWinner,
   isPhase2,
@@ -45,20 +51,23 @@ const GameRow: React.FC<GameRowProps> = ({
     return () => window.removeEventListener("resize", updateGap);
   }, []);
 
-  const outlierWord = row.words[row.outlierIndex];
-
-  // Build non-outlier words with status for CategoryCard display
-  const nonOutlierWords: WordWithStatus[] = row.words
-    .map((w, idx) => ({
-      text: w.text,
-      index: idx,
-      status: failedIndices.has(idx) ? 'wrong' as const : 'normal' as const
-    }))
-    .filter((w) => w.index !== row.outlierIndex)
-    .map(({ text, status }) => ({ text, status }));
+  // -1 until revealed, so no card is treated as the outlier
+  const outlierIndex = reveal?.outlierIndex ?? -1;
 
   // REVEALED STATE: Only show category card + outlier
-  if (displayState === "revealed") {
+  if (displayState === "revealed" && reveal) {
+    const outlierWord = row.words[outlierIndex];
+
+    // Build non-outlier words with status for CategoryCard display
+    const nonOutlierWords: WordWithStatus[] = row.words
+      .map((w, idx) => ({
+        text: w.text,
+        index: idx,
+        status: failedIndices.has(idx) ? 'wrong' as const : 'normal' as const
+      }))
+      .filter((w) => w.index !== outlierIndex)
+      .map(({ text, status }) => ({ text, status }));
+
     // Check-verified rows stay purple until tapped for standout
     // Only show ULTIMATE_WINNER (solid purple) after game is ended
     // Only show LOCKED_OUTLIER (amber) for standout partial (isSolved = true)
@@ -77,13 +86,15 @@ const GameRow: React.FC<GameRowProps> = ({
     }
 
     return (
-      <div className="grid grid-cols-4 gap-2 sm:gap-4 h-14 sm:h-16">
-        <CategoryCard category={row.category} words={nonOutlierWords} />
+      <div role="group" aria-label={`Row ${rowIndex + 1}: ${reveal.category}`} className="grid grid-cols-4 gap-2 sm:gap-4 h-14 sm:h-16">
+        <CategoryCard category={reveal.category} words={nonOutlierWords} />
         <Card
           text={outlierWord.text}
           state={outlierState}
-          onClick={() => onCardClick(rowIndex, row.outlierIndex)}
+          onClick={() => onCardClick(rowIndex, outlierIndex)}
           disabled={!isClickable}
+          position={`row ${rowIndex + 1}, odd one out`}
+          column={3}
         />
       </div>
     );
@@ -91,7 +102,7 @@ const GameRow: React.FC<GameRowProps> = ({
 
   // Get card state for interactive/sliding/locked modes
   const getCardState = (wIdx: number): CardState => {
-    const isOutlier = wIdx === row.outlierIndex;
+    const isOutlier = wIdx === outlierIndex;
 
     // During sliding for Check: keep purple (don't reveal ultimate or amber)
     // Only show ULTIMATE_WINNER when game is ended
@@ -116,6 +127,7 @@ const GameRow: React.FC<GameRowProps> = ({
 
     // Interactive state
     if (failedIndices.has(wIdx)) return CardState.WRONG;
+    if (eliminatedIndices.has(wIdx)) return CardState.ELIMINATED;
     if (selection === wIdx)
       return isPhase2 ? CardState.SELECTED_NO_GLOW : CardState.SELECTED;
     return CardState.IDLE;
@@ -127,8 +139,8 @@ const GameRow: React.FC<GameRowProps> = ({
       return {};
     }
 
-    const isOutlier = wIdx === row.outlierIndex;
-    const outlierIdx = row.outlierIndex;
+    const isOutlier = wIdx === outlierIndex;
+    const outlierIdx = outlierIndex;
 
     if (isOutlier) {
       // Outlier moves to position 3 (far right)
@@ -168,7 +180,11 @@ const GameRow: React.FC<GameRowProps> = ({
     : "";
 
   return (
-    <div className={`grid grid-cols-4 gap-2 sm:gap-4 ${needsAttention ? '' : 'h-14 sm:h-16'} ${attentionClasses}`}>
+    <div
+      role="group"
+      aria-label={[`Row ${rowIndex + 1}`, hintCategory && `category ${hintCategory}`, needsAttention && 'pick another word'].filter(Boolean).join(', ')}
+      className={`grid grid-cols-4 gap-2 sm:gap-4 ${needsAttention ? '' : 'h-14 sm:h-16'} ${attentionClasses}`}
+    >
       {row.words.map((word, wIdx) => (
         <Card
           key={word.id}
@@ -178,9 +194,12 @@ const GameRow: React.FC<GameRowProps> = ({
           disabled={
             gamePhase !== "playing" ||
             failedIndices.has(wIdx) ||
+            eliminatedIndices.has(wIdx) ||
             displayState !== "interactive"
           }
           style={getCardStyle(wIdx)}
+          position={`row ${rowIndex + 1}, word ${wIdx + 1}`}
+          column={wIdx}
         />
       ))}
     </div>
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { HintCost, HintKind } from '@/types';
+import { HINT_LABELS } from '@/lib/hints';
+
+type RowHintKind = Exclude<HintKind, 'meta-letter'>;
+
+interface HintPanelProps {
+  getCost: (kind: HintKind) => HintCost;
+  canAffordStrike: boolean; // False when a strike would end the game
+  rowOptions: Record<RowHintKind, number[]>; // Rows each row hint can still be used on
+  metaLetterAvailable: boolean;
+  taken: string[]; // What each hint taken so far revealed
+  disabled: boolean;
+  onHint: (kind: HintKind, rowIndex: number | null) => void;
+}
+
+const HINT_KINDS: HintKind[] = ['category', 'eliminate', 'meta-letter'];
+
+const COST_LABELS: Record<HintCost, string> = {
+  strike: 'Costs a strike',
+  star: 'Costs the Stand Out star',
+};
+
+/**
+ * Optional hints, tucked behind a "Need a hint?" button
+ * Row hints ask which row first; each button says what it costs before it's taken
+ */
+const HintPanel: React.FC<HintPanelProps> = ({
+  getCost,
+  canAffordStrike,
+  rowOptions,
+  metaLetterAvailable,
+  taken,
+  disabled,
+  onHint,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [choosingRow, setChoosingRow] = useState<RowHintKind | null>(null);
+
+  const isAvailable = (kind: HintKind) => {
+    if (getCost(kind) === 'strike' && !canAffordStrike) return false;
+    return kind === 'meta-letter' ? metaLetterAvailable : rowOptions[kind].length > 0;
+  };
+
+  const chooseHint = (kind: HintKind) => {
+    if (kind === 'meta-letter') {
+      onHint(kind, null);
+    } else {
+      setChoosingRow(kind);
+    }
+  };
+
+  const chooseRow = (rowIndex: number) => {
+    if (choosingRow) onHint(choosingRow, rowIndex);
+    setChoosingRow(null);
+  };
+
+  return (
+    <section aria-labelledby="hints-title" className="max-w-2xl w-full mt-6 sm:mt-8 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 id="hints-title" className="font-bold text-stone-900 dark:text-stone-100 uppercase tracking-widest text-xs">
+          Hints
+        </h3>
+        <button
+          onClick={() => {
+            setOpen(!open);
+            setChoosingRow(null);
+          }}
+          aria-expanded={open}
+          className="text-xs font-medium text-stone-600 dark:text-stone-400 hover:text-violet-500 dark:hover:text-violet-400 transition-colors"
+        >
+          {open ? 'Hide hints' : 'Need a hint?'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-2 animate-text-pop">
+          {choosingRow ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-stone-600 dark:text-stone-400">{HINT_LABELS[choosingRow]} in which row?</span>
+              {[0, 1, 2, 3].map((rowIndex) => (
+                <button
+                  key={rowIndex}
+                  onClick={() => chooseRow(rowIndex)}
+                  disabled={disabled || !rowOptions[choosingRow].includes(rowIndex)}
+                  className="px-3 py-1 rounded-md border-2 border-stone-300 dark:border-stone-600 text-stone-800 dark:text-stone-100 font-bold hover:border-violet-500 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-stone-300 dark:disabled:hover:border-stone-600"
+                >
+                  Row {rowIndex + 1}
+                </button>
+              ))}
+              <button
+                onClick={() => setChoosingRow(null)}
+                className="text-xs text-stone-500 dark:text-stone-400 underline"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              {HINT_KINDS.map((kind) => (
+                <button
+                  key={kind}
+                  onClick={() => chooseHint(kind)}
+                  disabled={disabled || !isAvailable(kind)}
+                  className="flex flex-col items-start rounded-md border-2 border-stone-300 dark:border-stone-600 px-3 py-2 text-left hover:border-violet-500 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-stone-300 dark:disabled:hover:border-stone-600 transition-colors"
+                >
+                  <span className="font-bold text-stone-800 dark:text-stone-100">{HINT_LABELS[kind]}</span>
+                  <span className="text-xs text-stone-500 dark:text-stone-400">{COST_LABELS[getCost(kind)]}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {!canAffordStrike && (
+            <p className="mt-2 text-xs text-stone-500 dark:text-stone-400">
+              One strike left, so hints that cost a strike are off.
+            </p>
+          )}
+        </div>
+      )}
+
+      {taken.length > 0 && (
+        <ul className="mt-2 space-y-1 text-stone-700 dark:text-stone-300">
+          {taken.map((text) => (
+            <li key={text} className="flex items-center gap-2">
+              <span aria-hidden="true">💡</span>
+              {text}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default HintPanel;
@@ -11,6 +11,7 @@ interface OddestPuzzleRowProps {
   selectedWords: SelectedWord[];
   allSelected: boolean;
   puzzleSelection: number | null; // rowIndex of card selected for final guess
+  partialRows: Set<number>; // Rows already picked and found not to hold the Oddest
   onCardClick: (rowIndex: number) => void;
   onCardSubmit: (rowIndex: number) => void;
   disabled: boolean;
@@ -20,6 +21,7 @@ const OddestPuzzleRow: React.FC<OddestPuzzleRowProps> = ({
   selectedWords,
   allSelected,
   puzzleSelection,
+  partialRows,
   onCardClick,
   onCardSubmit,
   disabled,
@@ -30,7 +32,7 @@ const OddestPuzzleRow: React.FC<OddestPuzzleRowProps> = ({
     : "";
 
   const handleClick = (rowIndex: number) => {
-    if (disabled) return;
+    if (disabled || partialRows.has(rowIndex)) return;
 
     if (puzzleSelection === rowIndex) {
       // Second tap on same card - submit
@@ -42,6 +44,7 @@ const OddestPuzzleRow: React.FC<OddestPuzzleRowProps> = ({
   };
 
   const getCardState = (rowIndex: number): CardState => {
+    if (partialRows.has(rowIndex)) return CardState.LOCKED_OUTLIER;
     if (puzzleSelection !== null) {
       // A card is selected for final guess
       if (puzzleSelection === rowIndex) {
@@ -55,7 +58,11 @@ const OddestPuzzleRow: React.FC<OddestPuzzleRowProps> = ({
   };
 
   return (
-    <div className={`grid grid-cols-4 gap-2 sm:gap-4 h-14 sm:h-16 ${containerClasses}`}>
+    <div
+      role="group"
+      aria-label="Oddest row: pick the Oddest One Out, then select it again to submit"
+      className={`grid grid-cols-4 gap-2 sm:gap-4 h-14 sm:h-16 ${containerClasses}`}
+    >
       {[0, 1, 2, 3].map((slotIndex) => {
         const selectedWord = selectedWords[slotIndex];
 
@@ -80,7 +87,9 @@ const OddestPuzzleRow: React.FC<OddestPuzzleRowProps> = ({
               text={selectedWord.word.text}
               state={getCardState(selectedWord.rowIndex)}
               onClick={() => handleClick(selectedWord.rowIndex)}
-              disabled={disabled}
+              disabled={disabled || partialRows.has(selectedWord.rowIndex)}
+              position={`final pick ${slotIndex + 1}`}
+              column={slotIndex}
             />
           );
         }
@@ -0,0 +1,42 @@
+import React from 'react';
+
+// Shape cues that go with each outcome colour, so outcomes can be told apart without seeing colour
+// ('hint' marks a strike paid for a hint)
+export type Outcome = 'wrong' | 'partial' | 'winner' | 'hint';
+
+// Stroked paths in a 24x24 box: a cross, a dash, a tick and a question mark
+const GLYPH_PATHS: Record<Outcome, string> = {
+  wrong: 'M7 7l10 10M17 7L7 17',
+  partial: 'M6 12h12',
+  winner: 'M5.5 12.5l4.5 4.5 8.5-10',
+  hint: 'M8.5 8.5a3.5 3.5 0 116 2.5c-1.5 1-2.5 1.7-2.5 3.5M12 19h.01',
+};
+
+interface OutcomeGlyphProps {
+  outcome: Outcome;
+  className?: string;
+}
+
+// Standalone glyph in the current text colour (e.g. in the corner of a Card)
+const OutcomeGlyph: React.FC<OutcomeGlyphProps> = ({ outcome, className = '' }) => (
+  <svg
+    className={className}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth={4}
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    aria-hidden="true"
+  >
+    <path d={GLYPH_PATHS[outcome]} />
+  </svg>
+);
+
+// The glyph's path alone, for drawing over another shape inside an existing svg
+export const OutcomeGlyphPath: React.FC<{ outcome: Outcome } & React.SVGProps<SVGPathElement>> = ({
+  outcome,
+  ...props
+}) => <path d={GLYPH_PATHS[outcome]} fill="none" strokeLinecap="round" strokeLinejoin="round" {...props} />;
+
+export default OutcomeGlyph;
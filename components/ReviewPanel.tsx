@@ -0,0 +1,94 @@
+import React from 'react';
+import { PublicGameRow, PuzzleSolution } from '@/types';
+
+interface ReviewPanelProps {
+  rows: PublicGameRow[];
+  solution: PuzzleSolution;
+  failedGuesses: Record<number, Set<number>>; // Player's wrong picks, highlighted in red
+  solvedRows: Set<number>; // Rows whose outlier was picked as the Oddest (partial), highlighted in amber
+  title?: string;
+}
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ rows, solution, failedGuesses, solvedRows, title = 'Explanations' }) => {
+  // Same order as the ended grid: the ultimate row last
+  const rowOrder = [0, 1, 2, 3]
+    .filter((rowIdx) => rowIdx !== solution.ultimateOutlierRowIndex)
+    .concat(solution.ultimateOutlierRowIndex);
+
+  return (
+    <div
+      className="max-w-2xl w-full mt-6 sm:mt-8 bg-stone-100 dark:bg-stone-800 border-2 border-stone-200 dark:border-stone-700 rounded-md p-4 sm:p-6 text-left"
+      style={{ animation: "fadeIn 600ms ease-out" }}
+    >
+      <h2 className="text-lg sm:text-xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-4">
+        {title}
+      </h2>
+      <ul className="space-y-4">
+        {rowOrder.map((rowIdx) => {
+          const row = rows[rowIdx];
+          const reveal = solution.rows[rowIdx];
+          const failed = failedGuesses[rowIdx] ?? new Set<number>();
+          const outlier = row.words[reveal.outlierIndex];
+          const isUltimate = rowIdx === solution.ultimateOutlierRowIndex;
+
+          return (
+            <li key={row.id} className="text-xs sm:text-sm">
+              <p className="font-bold text-stone-900 dark:text-stone-100 uppercase tracking-widest">
+                {reveal.category}
+              </p>
+              <p className="uppercase font-medium">
+                {row.words
+                  .map((word, wIdx) => ({ word, wIdx }))
+                  .filter(({ wIdx }) => wIdx !== reveal.outlierIndex)
+                  .map(({ word, wIdx }, idx) => (
+                    <span key={word.id}>
+                      {idx > 0 && <span className="text-stone-600 dark:text-stone-400">, </span>}
+                      <span
+                        className={
+                          failed.has(wIdx)
+                            ? "text-rose-500 font-bold line-through word-wrong"
+                            : "text-stone-600 dark:text-stone-400"
+                        }
+                      >
+                        {word.text}
+                      </span>
+                    </span>
+                  ))}
+              </p>
+              <p className="mt-1 text-stone-700 dark:text-stone-300">
+                <span
+                  className={`font-bold uppercase ${
+                    isUltimate
+                      ? "text-violet-500 word-winner"
+                      : solvedRows.has(rowIdx)
+                      ? "text-amber-500 underline word-partial"
+                      : "text-stone-900 dark:text-stone-100"
+                  }`}
+                >
+                  {outlier.text}
+                </span>
+                {" — "}
+                {reveal.explanation}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="mt-6 pt-4 border-t-2 border-stone-200 dark:border-stone-700 text-xs sm:text-sm">
+        <p className="font-bold text-violet-500 uppercase tracking-widest">
+          {solution.metaCategory}
+        </p>
+        <p className="mt-1 text-stone-700 dark:text-stone-300">
+          {solution.ultimateExplanation}
+        </p>
+      </div>
+      {Object.values(failedGuesses).some((set) => set.size > 0) && (
+        <p className="mt-4 text-[10px] sm:text-xs text-stone-500 dark:text-stone-400">
+          <span className="text-rose-500 font-bold line-through word-wrong">Red, struck-through</span> words are your wrong picks.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { ScoreColor, ScoreItem } from '@/types';
+import { Outcome, OutcomeGlyphPath } from '@/components/OutcomeGlyph';
+
+const OUTCOMES: Record<ScoreColor, Outcome> = {
+  RED: 'wrong',
+  YELLOW: 'partial',
+  PURPLE: 'winner',
+};
+
+// Explicit class names so Tailwind keeps them; the score-* classes let colour themes recolour them
+const COLOR_CLASSES: Record<ScoreColor, string> = {
+  RED: 'text-rose-500 score-wrong',
+  YELLOW: 'text-amber-400 score-partial',
+  PURPLE: 'text-violet-500 score-winner',
+};
+
+// Read out for the whole score row, in place of the marks
+const LABELS: Record<ScoreColor, string> = {
+  RED: 'wrong',
+  YELLOW: 'odd one out of its row',
+  PURPLE: 'Oddest One Out',
+};
+
+export const describeScore = (score: ScoreItem[], limit: number): string => {
+  if (score.length === 0) return `Score: no marks yet, ${limit} left`;
+  const marks = score.map((item) => (item.hint ? 'hint' : LABELS[item.color])).join(', ');
+  return `Score: ${marks}, ${Math.max(limit - score.length, 0)} left`;
+};
+
+const STAR_PATH = 'M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z';
+
+/**
+ * One score slot: a star (Stand Out mode) or circle (after Check) in the outcome's colour,
+ * with the outcome's glyph drawn over it (a question mark for a strike paid for a hint).
+ * An empty slot is a plain grey circle
+ */
+const ScoreMark: React.FC<{ item: ScoreItem | undefined }> = ({ item }) => {
+  if (!item) {
+    return <span className="h-3 w-3 rounded-full bg-stone-300 dark:bg-stone-700 transition-colors duration-300" />;
+  }
+
+  const outcome = item.hint ? 'hint' : OUTCOMES[item.color];
+  // The glyph sits in the middle of the shape, smaller inside a star
+  const glyphTransform = item.shape === 'star' ? 'translate(7.2 7.7) scale(0.4)' : 'translate(4.8 4.8) scale(0.6)';
+
+  return (
+    <svg
+      className={`${item.shape === 'star' ? 'h-3.5 w-3.5' : 'h-3 w-3'} transition-colors duration-300 ${COLOR_CLASSES[item.color]}`}
+      viewBox="0 0 24 24"
+      aria-hidden="true"
+    >
+      {item.shape === 'star' ? <path d={STAR_PATH} fill="currentColor" /> : <circle cx="12" cy="12" r="12" fill="currentColor" />}
+      <OutcomeGlyphPath
+        outcome={outcome}
+        transform={glyphTransform}
+        stroke={outcome === 'partial' ? '#1c1917' : '#fff'}
+        strokeWidth={6}
+      />
+    </svg>
+  );
+};
+
+export default ScoreMark;
@@ -0,0 +1,43 @@
+import React from 'react';
+import Dialog from '@/components/Dialog';
+
+interface StandoutInfoModalProps {
+  onClose: () => void;
+}
+
+const StandoutInfoModal: React.FC<StandoutInfoModalProps> = ({ onClose }) => (
+  <Dialog
+    labelledBy="standout-title"
+    onClose={onClose}
+    overlayClassName="bg-black/50"
+    className="bg-white dark:bg-stone-800 rounded-xl p-6 max-w-md w-full shadow-xl"
+  >
+    <div className="flex justify-between items-start mb-4">
+      <h2 id="standout-title" className="text-xl font-bold text-stone-900 dark:text-stone-100">
+        Stand Out Mode
+      </h2>
+      <button
+        onClick={onClose}
+        className="text-stone-400 hover:text-stone-600 dark:hover:text-stone-300"
+        aria-label="Close"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+    <div className="text-stone-700 dark:text-stone-300 text-sm">
+      <p>
+        Skip the Check button and directly guess the Oddest of the Odd words without the help and penalty of a check. Earn a score in Stars to stand out to your friends.
+      </p>
+    </div>
+    <button
+      onClick={onClose}
+      className="mt-6 w-full py-2 bg-violet-500 hover:bg-violet-600 text-white font-bold rounded-lg transition-colors"
+    >
+      Got it
+    </button>
+  </Dialog>
+);
+
+export default StandoutInfoModal;
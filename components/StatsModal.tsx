@@ -0,0 +1,108 @@
+import React from 'react';
+import Dialog from '@/components/Dialog';
+import { PlayerStats } from '@/lib/stats';
+
+interface StatsModalProps {
+  stats: PlayerStats;
+  onClose: () => void;
+}
+
+const StatItem: React.FC<{ value: number | string; label: string }> = ({ value, label }) => (
+  <div className="flex flex-col items-center">
+    <span className="text-2xl sm:text-3xl font-bold text-stone-900 dark:text-stone-100">{value}</span>
+    <span className="text-[10px] sm:text-xs text-stone-500 dark:text-stone-400 text-center leading-tight">{label}</span>
+  </div>
+);
+
+const DistributionBar: React.FC<{ label: string; count: number; max: number; colorClass: string }> = ({
+  label,
+  count,
+  max,
+  colorClass,
+}) => (
+  <div className="flex items-center gap-2">
+    <span className="w-14 text-right text-xs text-stone-600 dark:text-stone-400">{label}</span>
+    <div className="flex-1">
+      <div
+        className={`${colorClass} text-white text-xs font-bold text-right px-2 py-0.5 rounded-sm`}
+        style={{ width: `${Math.max(8, (count / max) * 100)}%` }}
+      >
+        {count}
+      </div>
+    </div>
+  </div>
+);
+
+const StatsModal: React.FC<StatsModalProps> = ({ stats, onClose }) => {
+  const maxCount = Math.max(1, ...stats.strikeDistribution, stats.losses);
+
+  return (
+    <Dialog
+      labelledBy="stats-title"
+      onClose={onClose}
+      className="bg-white dark:bg-stone-800 rounded-lg shadow-2xl max-w-md w-full p-4 sm:p-6 text-left"
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2 id="stats-title" className="text-lg sm:text-xl font-serif font-bold text-stone-900 dark:text-stone-100">
+          Statistics
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-stone-400 hover:text-stone-600 dark:hover:text-stone-300 text-2xl leading-none"
+          aria-label="Close"
+        >
+          &times;
+        </button>
+      </div>
+      <div className="grid grid-cols-4 gap-2 mb-6">
+        <StatItem value={stats.played} label="Played" />
+        <StatItem value={stats.winPercentage} label="Win %" />
+        <StatItem value={stats.currentStreak} label="Current Streak" />
+        <StatItem value={stats.maxStreak} label="Max Streak" />
+      </div>
+      <h3 className="font-bold text-stone-900 dark:text-stone-100 mb-2 text-xs sm:text-sm">
+        Strikes Used
+      </h3>
+      <div className="space-y-1 mb-6">
+        {stats.strikeDistribution.map((count, strikes) => (
+          <DistributionBar
+            key={strikes}
+            label={`${strikes} to win`}
+            count={count}
+            max={maxCount}
+            colorClass="bg-violet-500"
+          />
+        ))}
+        <DistributionBar label="Lost" count={stats.losses} max={maxCount} colorClass="bg-rose-500" />
+      </div>
+      <h3 className="font-bold text-stone-900 dark:text-stone-100 mb-2 text-xs sm:text-sm">
+        Wins
+      </h3>
+      <div className="flex justify-around text-stone-700 dark:text-stone-300 text-xs sm:text-sm">
+        <span className="flex items-center gap-1">
+          <svg className="h-4 w-4 text-violet-500" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
+          </svg>
+          Stand Out: <span className="font-bold">{stats.standOutWins}</span>
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-full bg-violet-500" />
+          After Check: <span className="font-bold">{stats.checkWins}</span>
+        </span>
+      </div>
+      <div className="flex justify-around mt-2 text-stone-700 dark:text-stone-300 text-xs sm:text-sm">
+        <span>
+          Without hints: <span className="font-bold">{stats.hintFreeWins}</span>
+        </span>
+        <span>
+          <span aria-hidden="true">💡</span> Hints used: <span className="font-bold">{stats.hintsUsed}</span>
+        </span>
+      </div>
+      <p className="mt-4 text-[10px] sm:text-xs text-stone-500 dark:text-stone-400">
+        Streaks count daily puzzles played on their own day. Archived puzzles count toward games played only.
+      </p>
+    </Dialog>
+  );
+};
+
+export default StatsModal;
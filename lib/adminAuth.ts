@@ -0,0 +1,16 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+
+// Editor-only features are locked behind the ADMIN_TOKEN secret; without it they're disabled
+export const isAdminToken = (token: string | null | undefined): boolean => {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected || !token) return false;
+
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+};
+
+// Token from an "Authorization: Bearer <token>" header
+export const getBearerToken = (request: NextRequest): string | null =>
+  request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null;
@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import {
+  GameData,
+  HintRequest,
+  HintResult,
+  PublicGameData,
+  PuzzleSolution,
+  RowCheckResult,
+  RowReveal,
+  StandoutResult,
+} from '@/types';
+import { MAX_KNOWN_WRONG_PER_ROW } from '@/lib/hints';
+import { createSeededRandom } from '@/lib/random';
+
+/**
+ * Stable hash of everything a game depends on: words (in layout order), categories, outliers and meta
+ * Saved progress and guesses only make sense against the version they were made on
+ */
+export const getPuzzleVersion = (puzzle: GameData): string =>
+  createHash('sha256')
+    .update(JSON.stringify({
+      rows: puzzle.rows.map((row) => ({
+        category: row.category,
+        words: row.words.map((word) => word.text),
+        outlierIndex: row.outlierIndex,
+      })),
+      metaCategory: puzzle.metaCategory,
+      ultimateOutlierRowIndex: puzzle.ultimateOutlierRowIndex,
+    }))
+    .digest('hex')
+    .slice(0, 12);
+
+// Whether a client's puzzle version still matches (clients that send no version aren't checked)
+export const isCurrentVersion = (puzzle: GameData, version: unknown): boolean =>
+  version === undefined || version === null || version === getPuzzleVersion(puzzle);
+
+// Response for a guess made against an outdated version of the puzzle
+export const PUZZLE_CHANGED_ERROR = 'This puzzle has been updated since it was loaded';
+
+// Strip the answer key so the puzzle can be sent to the browser
+// Tags stay server-side since they can hint at the categories
+export const toPublicPuzzle = (id: string, puzzle: GameData): PublicGameData => ({
+  id,
+  version: getPuzzleVersion(puzzle),
+  rows: puzzle.rows.map((row) => ({ id: row.id, words: row.words })),
+  author: puzzle.metadata.author,
+  difficulty: puzzle.metadata.difficulty,
+});
+
+export const getRowReveal = (puzzle: GameData, rowIndex: number): RowReveal => {
+  const row = puzzle.rows[rowIndex];
+  return {
+    category: row.category,
+    outlierIndex: row.outlierIndex,
+    explanation: row.explanation,
+  };
+};
+
+export const getSolution = (puzzle: GameData): PuzzleSolution => ({
+  rows: puzzle.rows.map((_, rowIndex) => getRowReveal(puzzle, rowIndex)),
+  metaCategory: puzzle.metaCategory,
+  ultimateOutlierRowIndex: puzzle.ultimateOutlierRowIndex,
+  ultimateExplanation: puzzle.ultimateExplanation,
+});
+
+const isIndex = (value: unknown, length: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < length;
+
+/**
+ * Parse a { rowIndex: wordIndex } map from a request body
+ * Returns null if any entry is out of range for this puzzle
+ */
+export const parseSelections = (puzzle: GameData, value: unknown): Record<number, number> | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const selections: Record<number, number> = {};
+  for (const [key, wordIndex] of Object.entries(value)) {
+    const rowIndex = Number(key);
+    if (!isIndex(rowIndex, puzzle.rows.length)) return null;
+    if (!isIndex(wordIndex, puzzle.rows[rowIndex].words.length)) return null;
+    selections[rowIndex] = wordIndex;
+  }
+  return selections;
+};
+
+export const isValidGuess = (puzzle: GameData, rowIndex: unknown, wordIndex: unknown): boolean =>
+  isIndex(rowIndex, puzzle.rows.length) &&
+  isIndex(wordIndex, puzzle.rows[rowIndex].words.length);
+
+// Grade each selected row; category and explanation are only included for correct rows
+export const checkRowSelections = (puzzle: GameData, selections: Record<number, number>): RowCheckResult[] =>
+  Object.entries(selections)
+    .map(([key, wordIndex]) => {
+      const rowIndex = Number(key);
+      const correct = wordIndex === puzzle.rows[rowIndex].outlierIndex;
+      return correct
+        ? { rowIndex, correct, reveal: getRowReveal(puzzle, rowIndex) }
+        : { rowIndex, correct };
+    })
+    .sort((a, b) => a.rowIndex - b.rowIndex);
+
+// Grade a final Stand Out pick; a win unlocks the full solution
+export const checkStandoutGuess = (puzzle: GameData, rowIndex: number, wordIndex: number): StandoutResult => {
+  const isRowOutlier = wordIndex === puzzle.rows[rowIndex].outlierIndex;
+  if (!isRowOutlier) {
+    return { outcome: 'wrong' };
+  }
+  if (rowIndex === puzzle.ultimateOutlierRowIndex) {
+    return { outcome: 'win', solution: getSolution(puzzle) };
+  }
+  return { outcome: 'partial', reveal: getRowReveal(puzzle, rowIndex) };
+};
+
+/**
+ * Parse a hint request body
+ * Returns null for an unknown kind, an out-of-range row, or an eliminate request for a row with
+ * nothing left to rule out
+ */
+export const parseHintRequest = (puzzle: GameData, value: unknown): HintRequest | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { kind, rowIndex, exclude } = value as Record<string, unknown>;
+
+  if (kind === 'meta-letter') return { kind };
+  if (!isIndex(rowIndex, puzzle.rows.length)) return null;
+  if (kind === 'category') return { kind, rowIndex };
+  if (kind !== 'eliminate') return null;
+
+  const wordCount = puzzle.rows[rowIndex].words.length;
+  if (!Array.isArray(exclude) || !exclude.every((wordIndex) => isIndex(wordIndex, wordCount))) return null;
+  // Judged on the count alone, so a rejected request says nothing about where the outlier is
+  const known = new Set<number>(exclude);
+  if (known.size >= MAX_KNOWN_WRONG_PER_ROW) return null;
+  return { kind, rowIndex, exclude: [...known] };
+};
+
+// Answer a hint; eliminations rule out a random non-outlier the player doesn't already know about,
+// seeded so asking again gives the same word, and a skipped word says nothing about the outlier
+export const getHint = (puzzleId: string, puzzle: GameData, request: HintRequest): HintResult => {
+  switch (request.kind) {
+    case 'category':
+      return { kind: 'category', rowIndex: request.rowIndex, category: puzzle.rows[request.rowIndex].category };
+    case 'eliminate': {
+      const { rowIndex, exclude } = request;
+      const row = puzzle.rows[rowIndex];
+      const candidates = row.words
+        .map((_, index) => index)
+        .filter((index) => index !== row.outlierIndex && !exclude.includes(index));
+      const random = createSeededRandom(`${puzzleId}:${rowIndex}:${[...exclude].sort((a, b) => a - b).join(',')}`);
+      const wordIndex = candidates[Math.floor(random() * candidates.length)];
+      return { kind: 'eliminate', rowIndex, wordIndex };
+    }
+    case 'meta-letter':
+      return { kind: 'meta-letter', letter: puzzle.metaCategory.trim().charAt(0).toUpperCase() };
+  }
+};
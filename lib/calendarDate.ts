@@ -0,0 +1,64 @@
+// A calendar date with no time or time zone, as "YYYY-MM-DD"
+// Strings compare in date order, so plain ===, < and > work
+export type CalendarDate = string;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number, length: number): string => String(value).padStart(length, '0');
+
+/**
+ * Build a calendar date from its parts (month is 1-based)
+ * Returns null if the parts don't form a real date (e.g. February 30th)
+ */
+export const toCalendarDate = (year: number, month: number, day: number): CalendarDate | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${pad(year, 4)}-${pad(month, 2)}-${pad(day, 2)}`;
+};
+
+// Check a string is a real "YYYY-MM-DD" calendar date
+export const isCalendarDate = (value: string): value is CalendarDate => parseCalendarDate(value) === value;
+
+/**
+ * Parse a date written in any format a puzzle source uses:
+ * - Google Visualization "Date(2025,0,5)" (0-based month, optional time parts ignored)
+ * - ISO "2025-01-05"
+ * - US "1/5/2025"
+ * Anything else (including valid-looking but impossible dates) returns null
+ */
+export const parseCalendarDate = (value: string): CalendarDate | null => {
+  const text = value.trim();
+
+  const gvizMatch = text.match(/^Date\((\d{4}),\s*(\d{1,2}),\s*(\d{1,2})(?:,\s*\d+)*\)$/);
+  if (gvizMatch) {
+    const [, year, month, day] = gvizMatch.map(Number);
+    return toCalendarDate(year, month + 1, day);
+  }
+
+  const isoMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoMatch) {
+    const [, year, month, day] = isoMatch.map(Number);
+    return toCalendarDate(year, month, day);
+  }
+
+  const usMatch = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (usMatch) {
+    const [, month, day, year] = usMatch.map(Number);
+    return toCalendarDate(year, month, day);
+  }
+
+  return null;
+};
+
+// The UTC calendar date of a timestamp
+export const toUtcCalendarDate = (timestamp: number): CalendarDate => new Date(timestamp).toISOString().slice(0, 10);
+
+// Shift a calendar date by a number of days
+export const addDays = (date: CalendarDate, days: number): CalendarDate =>
+  toUtcCalendarDate(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS);
+
+// Whole days from one calendar date to another (positive if `to` is later)
+export const daysBetween = (from: CalendarDate, to: CalendarDate): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
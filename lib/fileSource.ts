@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { PuzzleDraft, PuzzleSource } from '@/lib/puzzleSource';
+import { parseCalendarDate } from '@/lib/calendarDate';
+
+const PUZZLE_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// Read a string field leniently; anything else becomes empty and is reported by validation
+const toText = (value: unknown): string =>
+  typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+
+const optionalString = (value: unknown): string | undefined => toText(value) || undefined;
+
+// Pad a list to a fixed length so missing entries show up as empty cells
+const padTo = <T>(items: T[], length: number, filler: () => T): T[] =>
+  items.length >= length ? items : [...items, ...Array.from({ length: length - items.length }, filler)];
+
+/**
+ * Parse one puzzle file
+ * File structure (JSON or YAML):
+ * - date: "YYYY-MM-DD" (optional, defaults to the file name)
+ * - metaCategory: category shared by 3 of the 4 row outliers
+ * - rows: 4 rows of { category, words, explanation? }
+ *   - The last word in each row is the outlier
+ *   - The last row holds the Ultimate Oddest1Out
+ * - ultimateExplanation, author, difficulty (optional strings)
+ * - tags (optional list, or comma-separated string)
+ */
+const parsePuzzleFile = (fileName: string, contents: string): PuzzleDraft => {
+  const problems: string[] = [];
+  let data;
+  try {
+    data = path.extname(fileName) === '.json' ? JSON.parse(contents) : YAML.parse(contents);
+  } catch (error) {
+    problems.push(`Invalid file syntax: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const dateText = toText(data?.date) || path.basename(fileName, path.extname(fileName));
+
+  const rawRows: unknown[] = Array.isArray(data?.rows) ? data.rows : [];
+  if (rawRows.length !== 4) {
+    problems.push(`Expected 4 rows, found ${rawRows.length}`);
+  }
+  const rows = padTo(rawRows.slice(0, 4), 4, () => ({})).map((value, rowIndex) => {
+    const row = (value ?? {}) as Record<string, unknown>;
+    const words: unknown[] = Array.isArray(row.words) ? row.words : [];
+    // Missing words show up as empty cells; only extra words need their own message
+    if (words.length > 4) {
+      problems.push(`Row ${rowIndex + 1} has ${words.length} words, expected 4`);
+    }
+    return {
+      category: toText(row.category),
+      words: padTo(words.slice(0, 4), 4, () => '').map(toText),
+      explanation: optionalString(row.explanation),
+    };
+  });
+
+  const tags: unknown[] = Array.isArray(data?.tags)
+    ? data.tags
+    : typeof data?.tags === 'string' ? data.tags.split(',') : [];
+
+  return {
+    location: fileName,
+    dateText,
+    date: parseCalendarDate(dateText),
+    problems,
+    rows,
+    metaCategory: toText(data?.metaCategory),
+    ultimateExplanation: optionalString(data?.ultimateExplanation),
+    metadata: {
+      author: optionalString(data?.author),
+      difficulty: optionalString(data?.difficulty),
+      tags: tags.map((tag) => String(tag).trim()).filter(Boolean),
+    },
+  };
+};
+
+// Reads a directory of puzzle files, one puzzle per date
+export const createFileSource = (dir: string): PuzzleSource => ({
+  name: 'files',
+  fetchDrafts: async () => {
+    const fileNames = (await fs.readdir(dir))
+      .filter((fileName) => PUZZLE_FILE_EXTENSIONS.includes(path.extname(fileName)))
+      .sort();
+
+    const puzzles: PuzzleDraft[] = [];
+    for (const fileName of fileNames) {
+      const contents = await fs.readFile(path.join(dir, fileName), 'utf8');
+      puzzles.push(parsePuzzleFile(fileName, contents));
+    }
+
+    return puzzles;
+  },
+});
@@ -0,0 +1,95 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { GameData, HintCost, RowCheckResult } from '@/types';
+import { getPuzzleVersion } from '@/lib/answers';
+
+// Strikes that end a game (matches the client's score limit)
+export const STRIKE_LIMIT = 3;
+
+/**
+ * A game's graded progress, signed by the server and carried by the client between answer requests,
+ * so strikes (and the answer key they unlock) can't be made up in the browser
+ * Wrong picks are a set, so grading the same guess again (a Check resumed after a reload)
+ * doesn't count it twice
+ */
+export interface GameState {
+  id: string;
+  version: string;
+  wrong: string[]; // "row:word" picks graded wrong
+  partial: number[]; // Rows whose outlier was picked in Stand Out mode but wasn't the Oddest
+  hintStrikes: number;
+  standOutForfeit: boolean; // Check was used or a hint was paid for with the star
+}
+
+// Without GAME_STATE_SECRET each server instance signs with its own random key,
+// so a state signed by one instance is rejected by the others (and by the same one after a restart)
+const SECRET = process.env.GAME_STATE_SECRET || randomBytes(32).toString('hex');
+if (!process.env.GAME_STATE_SECRET && process.env.NODE_ENV === 'production') {
+  console.warn('GAME_STATE_SECRET is not set - game states only verify on the instance that signed them');
+}
+
+const sign = (payload: string): string => createHmac('sha256', SECRET).update(payload).digest('base64url');
+
+export const signGameState = (state: GameState): string => {
+  const payload = Buffer.from(JSON.stringify(state)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+/**
+ * Read the state a client sent with an answer request
+ * No state means a new game; returns null for a state that was tampered with or belongs to another
+ * puzzle or version
+ */
+export const readGameState = (token: unknown, puzzleId: string, puzzle: GameData): GameState | null => {
+  const version = getPuzzleVersion(puzzle);
+  if (token === undefined || token === null) {
+    return { id: puzzleId, version, wrong: [], partial: [], hintStrikes: 0, standOutForfeit: false };
+  }
+  if (typeof token !== 'string') return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+  const given = Buffer.from(signature);
+  const wanted = Buffer.from(sign(payload));
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) return null;
+
+  try {
+    const state: GameState = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return state.id === puzzleId && state.version === version ? state : null;
+  } catch {
+    return null;
+  }
+};
+
+// Response for a state that doesn't verify
+export const INVALID_GAME_STATE_ERROR = 'Invalid game state';
+
+export const getStrikes = (state: GameState): number =>
+  state.wrong.length + state.partial.length + state.hintStrikes;
+
+export const isGameLost = (state: GameState): boolean => getStrikes(state) >= STRIKE_LIMIT;
+
+export const recordWrongPick = (state: GameState, rowIndex: number, wordIndex: number): GameState => {
+  const pick = `${rowIndex}:${wordIndex}`;
+  return state.wrong.includes(pick) ? state : { ...state, wrong: [...state.wrong, pick] };
+};
+
+// The standout endpoint refuses a row that's already partial, so each partial row is one strike
+export const recordPartialRow = (state: GameState, rowIndex: number): GameState => ({
+  ...state,
+  partial: [...state.partial, rowIndex],
+});
+
+// A Check forfeits Stand Out mode and strikes each wrong row
+export const recordCheck = (
+  state: GameState,
+  selections: Record<number, number>,
+  results: RowCheckResult[]
+): GameState =>
+  results.reduce<GameState>(
+    (next, { rowIndex, correct }) => (correct ? next : recordWrongPick(next, rowIndex, selections[rowIndex])),
+    { ...state, standOutForfeit: true }
+  );
+
+// Charge a hint: a strike, or the Stand Out star
+export const recordHint = (state: GameState, cost: HintCost): GameState =>
+  cost === 'strike' ? { ...state, hintStrikes: state.hintStrikes + 1 } : { ...state, standOutForfeit: true };
@@ -0,0 +1,72 @@
+import {
+  GameResult,
+  GuessRecord,
+  PuzzleSolution,
+  RowCheckStatus,
+  RowReveal,
+  ScoreItem,
+  UsedHint,
+} from '@/types';
+
+const SAVED_GAME_PREFIX = 'savedGame:';
+
+// Saved games older than this are removed
+const SAVED_GAME_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Everything needed to resume a game after a reload (Sets stored as arrays)
+export interface SavedGame {
+  savedAt: number;
+  version?: string; // Puzzle version the progress was made on (missing from older saves)
+  selections: Record<number, number>;
+  selectionOrder: number[];
+  score: ScoreItem[];
+  guesses: GuessRecord[];
+  hasUsedCheck: boolean;
+  hints?: UsedHint[]; // Missing from saves made before hints existed
+  gameState?: string | null; // Signed server state (missing from saves made before the server kept one)
+  failedGuesses: Record<number, number[]>;
+  solvedRows: number[];
+  rowsNeedingReselection: number[];
+  rowCheckStatuses: Record<number, RowCheckStatus>;
+  rowReveals: Record<number, RowReveal>;
+  solution: PuzzleSolution | null;
+  gameResult: GameResult | null;
+  checkInProgress: boolean; // Reloaded mid-Check: the remaining rows are graded again on resume
+}
+
+const getStorageKey = (puzzleId: string) => `${SAVED_GAME_PREFIX}${puzzleId}`;
+
+export const loadSavedGame = (puzzleId: string): SavedGame | null => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(puzzleId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveGame = (puzzleId: string, game: Omit<SavedGame, 'savedAt'>) => {
+  try {
+    localStorage.setItem(getStorageKey(puzzleId), JSON.stringify({ ...game, savedAt: Date.now() }));
+  } catch {
+    // Storage full or unavailable - the game still plays, it just won't resume
+  }
+};
+
+// Remove saved games that haven't been touched in SAVED_GAME_MAX_AGE
+export const pruneSavedGames = () => {
+  try {
+    const now = Date.now();
+    for (let i = localStorage.length - 1; i >= 0; i--) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(SAVED_GAME_PREFIX)) continue;
+
+      const savedAt = loadSavedGame(key.slice(SAVED_GAME_PREFIX.length))?.savedAt;
+      if (typeof savedAt !== 'number' || now - savedAt > SAVED_GAME_MAX_AGE) {
+        localStorage.removeItem(key);
+      }
+    }
+  } catch {
+    // Ignore storage errors - pruning is best effort
+  }
+};
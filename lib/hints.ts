@@ -0,0 +1,32 @@
+import { HintCost, HintKind, HintResult, PublicGameRow, UsedHint } from '@/types';
+
+// Words a row can have ruled out (wrong picks and eliminations); one more would leave only the outlier
+export const MAX_KNOWN_WRONG_PER_ROW = 2;
+
+export const HINT_LABELS: Record<HintKind, string> = {
+  category: 'Reveal a category',
+  eliminate: 'Remove a word',
+  'meta-letter': 'First letter of the connection',
+};
+
+/**
+ * What a hint costs right now
+ * A row's category gives the most away, so it always costs a strike. The others cost the Stand Out star
+ * while it can still be won, and a strike once it's gone
+ */
+export const getHintCost = (kind: HintKind, canWinStar: boolean): HintCost =>
+  kind !== 'category' && canWinStar ? 'star' : 'strike';
+
+export const forfeitsStar = (hints: UsedHint[]): boolean => hints.some((hint) => hint.cost === 'star');
+
+// What a hint told the player, as listed under the hint buttons and read out when it's taken
+export const describeHint = (hint: HintResult, rows: PublicGameRow[]): string => {
+  switch (hint.kind) {
+    case 'category':
+      return `Row ${hint.rowIndex + 1} category: ${hint.category}`;
+    case 'eliminate':
+      return `Row ${hint.rowIndex + 1}: ${rows[hint.rowIndex].words[hint.wordIndex].text} is not the Odd 1`;
+    case 'meta-letter':
+      return `The connection starts with "${hint.letter}"`;
+  }
+};
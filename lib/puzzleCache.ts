@@ -0,0 +1,179 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PuzzleDataSource } from '@/types';
+import { PuzzleDefinition, fetchValidPuzzles, getPuzzleSource } from '@/lib/puzzleSource';
+import { CalendarDate } from '@/lib/calendarDate';
+
+// Cached puzzles are served fresh for this long, then served stale while a refresh runs
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+// After a failed refresh, wait this long before trying the source again
+const RETRY_DELAY = 30 * 1000; // 30 seconds
+
+// Last good puzzle set, kept on disk so a cold start can survive a puzzle source outage
+// Defaults to the OS temp directory, the only writable place on serverless hosts such as Vercel
+const SNAPSHOT_PATH = path.resolve(
+  process.cwd(),
+  process.env.PUZZLE_SNAPSHOT_PATH ?? path.join(os.tmpdir(), 'oddest1out', 'puzzle-snapshot.json')
+);
+
+interface CacheEntry {
+  definitions: PuzzleDefinition[];
+  fetchedAt: number;
+}
+
+export interface CachedDefinitions {
+  definitions: PuzzleDefinition[];
+  source: Exclude<PuzzleDataSource, 'fallback'>;
+}
+
+// What changed in a forced refresh, by puzzle date
+export interface RevalidationSummary {
+  added: CalendarDate[];
+  removed: CalendarDate[];
+  modified: CalendarDate[];
+  puzzleCount: number;
+}
+
+// Health of the puzzle source and cache, for the status endpoint
+export interface CacheStatus {
+  sourceName: string;
+  sourceReachable: boolean | null; // Result of the last fetch; null until the source has been tried
+  lastError: string | null;
+  lastFailureAt: number | null;
+  fetchedAt: number | null; // When the cached puzzles were fetched (a snapshot keeps its original time)
+  stale: boolean;
+  refreshing: boolean;
+}
+
+let cache: CacheEntry | null = null;
+// Shared by every request waiting on the puzzle source, so it's only fetched once at a time
+let inFlight: Promise<CacheEntry> | null = null;
+let lastFailureAt = 0;
+let lastError: string | null = null;
+let sourceReachable: boolean | null = null;
+
+const readSnapshot = async (): Promise<CacheEntry | null> => {
+  try {
+    const snapshot: CacheEntry = JSON.parse(await fs.readFile(SNAPSHOT_PATH, 'utf8'));
+    return Array.isArray(snapshot.definitions) && snapshot.definitions.length > 0 ? snapshot : null;
+  } catch {
+    return null;
+  }
+};
+
+// Write via a temp file so a crash mid-write can't leave a half-written snapshot
+const writeSnapshot = async (entry: CacheEntry) => {
+  try {
+    await fs.mkdir(path.dirname(SNAPSHOT_PATH), { recursive: true });
+    const tempPath = `${SNAPSHOT_PATH}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry));
+    await fs.rename(tempPath, SNAPSHOT_PATH);
+  } catch (error) {
+    // Read-only file systems can't keep a snapshot - the in-memory cache still works
+    console.warn('Failed to write puzzle snapshot:', error);
+  }
+};
+
+/**
+ * Fetch the puzzle source into the cache, sharing one request between concurrent callers
+ * An empty result is treated as a failure so it never replaces good data
+ */
+const refresh = (): Promise<CacheEntry> => {
+  if (!inFlight) {
+    inFlight = (async () => {
+      const definitions = await fetchValidPuzzles();
+      if (definitions.length === 0) {
+        throw new Error('Puzzle source returned no valid puzzles');
+      }
+      const entry = { definitions, fetchedAt: Date.now() };
+      cache = entry;
+      sourceReachable = true;
+      lastError = null;
+      await writeSnapshot(entry);
+      return entry;
+    })().catch((error) => {
+      lastFailureAt = Date.now();
+      sourceReachable = false;
+      lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+};
+
+const refreshInBackground = () => {
+  if (Date.now() - lastFailureAt < RETRY_DELAY) return;
+  refresh().catch((error) => console.error('Background puzzle refresh failed:', error));
+};
+
+/**
+ * Get puzzle definitions, stale-while-revalidate:
+ * - Fresh cache: served as is
+ * - Stale cache: served immediately while a background refresh runs
+ * - No cache (cold start): fetched from the source, falling back to the last good snapshot on disk
+ * Throws only if the source fails and there's no snapshot either
+ */
+export const getPuzzleDefinitions = async (): Promise<CachedDefinitions> => {
+  if (cache) {
+    if (Date.now() - cache.fetchedAt >= CACHE_TTL) {
+      refreshInBackground();
+    }
+    return { definitions: cache.definitions, source: 'cache' };
+  }
+
+  try {
+    const entry = await refresh();
+    return { definitions: entry.definitions, source: 'sheet' };
+  } catch (error) {
+    const snapshot = await readSnapshot();
+    if (!snapshot) throw error;
+
+    console.error('Failed to fetch puzzles from source, serving last good snapshot:', error);
+    // Keep the snapshot's age so the next request tries the source again in the background
+    cache ??= snapshot;
+    return { definitions: cache.definitions, source: 'cache' };
+  }
+};
+
+const diffPuzzles = (previous: PuzzleDefinition[], next: PuzzleDefinition[]): RevalidationSummary => {
+  const previousByDate = new Map(previous.map((definition) => [definition.date, JSON.stringify(definition)]));
+  const nextByDate = new Map(next.map((definition) => [definition.date, JSON.stringify(definition)]));
+
+  return {
+    added: [...nextByDate.keys()].filter((date) => !previousByDate.has(date)).sort(),
+    removed: [...previousByDate.keys()].filter((date) => !nextByDate.has(date)).sort(),
+    modified: [...nextByDate.entries()]
+      .filter(([date, contents]) => previousByDate.has(date) && previousByDate.get(date) !== contents)
+      .map(([date]) => date)
+      .sort(),
+    puzzleCount: next.length,
+  };
+};
+
+/**
+ * Re-fetch the puzzle source now, ignoring the cache age, and report what changed
+ * A refresh already in flight may have started before the edit, so it's awaited and a new one run
+ * On failure the current cache is kept and the error is thrown
+ */
+export const revalidatePuzzles = async (): Promise<RevalidationSummary> => {
+  const previous = cache?.definitions ?? (await readSnapshot())?.definitions ?? [];
+
+  await inFlight?.catch(() => undefined);
+  lastFailureAt = 0;
+  const entry = await refresh();
+
+  return diffPuzzles(previous, entry.definitions);
+};
+
+export const getCacheStatus = (): CacheStatus => ({
+  sourceName: getPuzzleSource().name,
+  sourceReachable,
+  lastError,
+  lastFailureAt: lastFailureAt || null,
+  fetchedAt: cache?.fetchedAt ?? null,
+  stale: cache ? Date.now() - cache.fetchedAt >= CACHE_TTL : false,
+  refreshing: inFlight !== null,
+});
@@ -0,0 +1,81 @@
+import path from 'path';
+import { PuzzleMetadata } from '@/types';
+import { CalendarDate } from '@/lib/calendarDate';
+import { googleSheetsSource } from '@/lib/googleSheets';
+import { createFileSource } from '@/lib/fileSource';
+import { formatPuzzleReport, validatePuzzles } from '@/lib/puzzleValidation';
+
+// One row as authored, before shuffling
+// The last word (index 3) is always the row's outlier
+export interface PuzzleRowDefinition {
+  category: string;
+  words: string[];
+  explanation?: string; // Why the outlier doesn't belong (generated if missing)
+}
+
+// A puzzle as authored, before shuffling
+// The last row (index 3) is always the row holding the Ultimate Oddest1Out
+export interface PuzzleDefinition {
+  date: CalendarDate;
+  rows: PuzzleRowDefinition[];
+  metaCategory: string;
+  ultimateExplanation?: string; // Why the ultimate outlier doesn't fit the meta category (generated if missing)
+  metadata: PuzzleMetadata;
+}
+
+// A puzzle as read from the source, before validation
+// Any field may be empty or malformed - validatePuzzles reports what's wrong
+export interface PuzzleDraft extends Omit<PuzzleDefinition, 'date'> {
+  location: string; // Where the puzzle lives in the source ("Column C", "2025-01-05.json")
+  dateText: string; // Date as written in the source
+  date: CalendarDate | null; // null if dateText couldn't be parsed
+  problems: string[]; // Structural problems found while reading (bad syntax, wrong row count)
+}
+
+// Anywhere puzzles can be loaded from
+export interface PuzzleSource {
+  name: string;
+  fetchDrafts: () => Promise<PuzzleDraft[]>;
+}
+
+/**
+ * Pick the puzzle source from environment configuration
+ * - PUZZLE_SOURCE=sheet (default): Google Sheet (GOOGLE_SHEET_ID overrides the sheet)
+ * - PUZZLE_SOURCE=files: directory of JSON/YAML puzzle files (PUZZLE_DIR, default "puzzles")
+ */
+export const getPuzzleSource = (): PuzzleSource => {
+  const sourceName = process.env.PUZZLE_SOURCE ?? 'sheet';
+
+  switch (sourceName) {
+    case 'sheet':
+      return googleSheetsSource;
+    case 'files':
+      return createFileSource(path.resolve(process.cwd(), process.env.PUZZLE_DIR ?? 'puzzles'));
+    default:
+      throw new Error(`Unknown PUZZLE_SOURCE "${sourceName}" (expected "sheet" or "files")`);
+  }
+};
+
+/**
+ * Load playable puzzles from a source
+ * Puzzles with validation errors are skipped and logged; warnings don't block a puzzle
+ */
+export const fetchValidPuzzles = async (source: PuzzleSource = getPuzzleSource()): Promise<PuzzleDefinition[]> => {
+  const drafts = await source.fetchDrafts();
+  const report = validatePuzzles(drafts);
+
+  return drafts.flatMap((draft, index) => {
+    const puzzleReport = report.puzzles[index];
+    if (!draft.date || puzzleReport.issues.some((issue) => issue.severity === 'error')) {
+      console.warn(`Skipping invalid puzzle from ${source.name} source:\n${formatPuzzleReport(puzzleReport)}`);
+      return [];
+    }
+    return [{
+      date: draft.date,
+      rows: draft.rows,
+      metaCategory: draft.metaCategory,
+      ultimateExplanation: draft.ultimateExplanation,
+      metadata: draft.metadata,
+    }];
+  });
+};
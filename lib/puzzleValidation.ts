@@ -0,0 +1,173 @@
+import type { PuzzleDraft } from '@/lib/puzzleSource';
+import { daysBetween } from '@/lib/calendarDate';
+
+// A Card fits about this many characters on one line at its smallest size
+export const MAX_CARD_WORD_LENGTH = 11;
+// Cards wrap onto at most two lines
+export const MAX_CARD_TEXT_LENGTH = 22;
+
+// Categories and words repeated within this many days are flagged
+export const RECENT_PUZZLE_DAYS = 30;
+
+export type IssueSeverity = 'error' | 'warning';
+
+// Errors stop a puzzle from being served; warnings are for the editor's attention only
+export interface PuzzleIssue {
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface PuzzleReport {
+  location: string;
+  dateText: string;
+  issues: PuzzleIssue[];
+}
+
+export interface ValidationReport {
+  puzzles: PuzzleReport[]; // Same order as the drafts passed in
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface ValidationOptions {
+  recentDays?: number;
+}
+
+// Compare words and categories ignoring case and surrounding spaces
+const normalizeText = (text: string): string => text.trim().toLowerCase();
+
+const wordField = (rowIndex: number, wordIndex: number) => `Category ${rowIndex + 1} Word ${wordIndex + 1}`;
+const nameField = (rowIndex: number) => `Category ${rowIndex + 1} Name`;
+
+// Every word and category name in a puzzle, labelled with where it sits
+const getWordEntries = (draft: PuzzleDraft) =>
+  draft.rows.flatMap((row, rowIndex) =>
+    row.words.map((text, wordIndex) => ({ field: wordField(rowIndex, wordIndex), text }))
+  );
+
+const getCategoryEntries = (draft: PuzzleDraft) => [
+  ...draft.rows.map((row, rowIndex) => ({ field: nameField(rowIndex), text: row.category })),
+  { field: 'Meta Category', text: draft.metaCategory },
+];
+
+const checkDate = (draft: PuzzleDraft): PuzzleIssue[] => {
+  if (!draft.dateText) return [{ severity: 'error', message: 'Missing date' }];
+  if (!draft.date) return [{ severity: 'error', message: `Can't parse date "${draft.dateText}"` }];
+  return [];
+};
+
+const checkEmptyCells = (draft: PuzzleDraft): PuzzleIssue[] =>
+  [...getCategoryEntries(draft), ...getWordEntries(draft)]
+    .filter(({ text }) => !text.trim())
+    .map(({ field }) => ({ severity: 'error', message: `Empty cell: ${field}` }));
+
+const checkDuplicateWords = (draft: PuzzleDraft): PuzzleIssue[] => {
+  const issues: PuzzleIssue[] = [];
+  const seen = new Map<string, string>();
+  getWordEntries(draft).forEach(({ field, text }) => {
+    const key = normalizeText(text);
+    if (!key) return;
+    const firstField = seen.get(key);
+    if (firstField) {
+      issues.push({ severity: 'error', message: `Duplicate word "${text}" in ${firstField} and ${field}` });
+    } else {
+      seen.set(key, field);
+    }
+  });
+  return issues;
+};
+
+const checkWordLengths = (draft: PuzzleDraft): PuzzleIssue[] =>
+  getWordEntries(draft).flatMap(({ field, text }): PuzzleIssue[] => {
+    const longestPart = Math.max(0, ...text.split(/[\s-]+/).map((part) => part.length));
+    if (longestPart > MAX_CARD_WORD_LENGTH || text.length > MAX_CARD_TEXT_LENGTH) {
+      return [{ severity: 'warning', message: `"${text}" (${field}) may not fit on a card` }];
+    }
+    return [];
+  });
+
+const checkDuplicateDates = (draft: PuzzleDraft, drafts: PuzzleDraft[]): PuzzleIssue[] => {
+  if (!draft.date) return [];
+  return drafts
+    .filter((other) => other !== draft && other.date === draft.date)
+    .map((other) => ({ severity: 'error', message: `Date ${draft.date} is also used by ${other.location}` }));
+};
+
+// Words and categories already used by a puzzle in the preceding recentDays days
+const checkRecentReuse = (draft: PuzzleDraft, drafts: PuzzleDraft[], recentDays: number): PuzzleIssue[] => {
+  const date = draft.date;
+  if (!date) return [];
+
+  const recentDrafts = drafts.filter((other) => {
+    if (!other.date) return false;
+    const daysBefore = daysBetween(other.date, date);
+    return daysBefore > 0 && daysBefore <= recentDays;
+  });
+
+  const issues: PuzzleIssue[] = [];
+  const findReuse = (kind: string, entries: { field: string; text: string }[], getOtherEntries: typeof getWordEntries) => {
+    entries.forEach(({ field, text }) => {
+      const key = normalizeText(text);
+      if (!key) return;
+      const previous = recentDrafts.find((other) =>
+        getOtherEntries(other).some((entry) => normalizeText(entry.text) === key)
+      );
+      if (previous?.date) {
+        issues.push({
+          severity: 'warning',
+          message: `${kind} "${text}" (${field}) was used on ${previous.date} (${previous.location})`,
+        });
+      }
+    });
+  };
+
+  findReuse('Category', getCategoryEntries(draft), getCategoryEntries);
+  findReuse('Word', getWordEntries(draft), getWordEntries);
+  return issues;
+};
+
+/**
+ * Check puzzles read from a source and report problems per puzzle (sheet column or file)
+ * Errors: structural problems, missing/unparseable/duplicate dates, empty cells, duplicate words in a grid
+ * Warnings: words too long for a Card, categories or words reused from recent puzzles
+ */
+export const validatePuzzles = (drafts: PuzzleDraft[], options: ValidationOptions = {}): ValidationReport => {
+  const recentDays = options.recentDays ?? RECENT_PUZZLE_DAYS;
+
+  const puzzles = drafts.map((draft) => ({
+    location: draft.location,
+    dateText: draft.dateText,
+    issues: [
+      ...draft.problems.map((message): PuzzleIssue => ({ severity: 'error', message })),
+      ...checkDate(draft),
+      ...checkDuplicateDates(draft, drafts),
+      ...checkEmptyCells(draft),
+      ...checkDuplicateWords(draft),
+      ...checkWordLengths(draft),
+      ...checkRecentReuse(draft, drafts, recentDays),
+    ],
+  }));
+
+  const countIssues = (severity: IssueSeverity) =>
+    puzzles.reduce((count, puzzle) => count + puzzle.issues.filter((issue) => issue.severity === severity).length, 0);
+
+  return {
+    puzzles,
+    errorCount: countIssues('error'),
+    warningCount: countIssues('warning'),
+  };
+};
+
+// Format one puzzle's issues as indented lines, e.g. for logs
+export const formatPuzzleReport = (report: PuzzleReport): string => {
+  const heading = `${report.location}${report.dateText ? ` (${report.dateText})` : ''}`;
+  const lines = report.issues.map((issue) => `  ${issue.severity.toUpperCase()}: ${issue.message}`);
+  return [heading, ...lines].join('\n');
+};
+
+// Format a full report, listing only puzzles that have issues
+export const formatValidationReport = (report: ValidationReport): string => {
+  const withIssues = report.puzzles.filter((puzzle) => puzzle.issues.length > 0);
+  const summary = `${report.puzzles.length} puzzles checked: ${report.errorCount} errors, ${report.warningCount} warnings`;
+  return [...withIssues.map(formatPuzzleReport), summary].join('\n\n');
+};
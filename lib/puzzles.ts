@@ -0,0 +1,383 @@
+import { GameData, PuzzleDataSource, PuzzleListing, WordItem } from '@/types';
+import { CalendarDate, addDays, toUtcCalendarDate } from '@/lib/calendarDate';
+import { PuzzleDefinition } from '@/lib/puzzleSource';
+import { getPuzzleDefinitions } from '@/lib/puzzleCache';
+import { createSeededRandom, shuffleArray } from '@/lib/random';
+import { isReleased } from '@/lib/releasePolicy';
+
+// Puzzle with associated date from the puzzle source
+export interface PuzzleWithDate {
+  puzzle: GameData;
+  date: CalendarDate;
+  definition: PuzzleDefinition; // Unshuffled source, kept for practice reshuffles
+}
+
+// Puzzle returned by the lookup helpers below
+export interface PuzzleResult {
+  id: string;
+  puzzle: GameData;
+  date: CalendarDate;
+  source: PuzzleDataSource;
+}
+
+// Puzzles along with where they were loaded from
+export interface LoadedPuzzles {
+  puzzles: PuzzleWithDate[];
+  source: Exclude<PuzzleDataSource, 'fallback'>;
+}
+
+// Most recent puzzle handed to a player, reported by the status endpoint
+export interface ServedPuzzle {
+  id: string;
+  date: CalendarDate;
+  source: PuzzleDataSource;
+  servedAt: number;
+}
+
+// Which days in a range have a puzzle scheduled, reported by the status endpoint
+export interface ScheduleCoverage {
+  puzzleCount: number;
+  latestDate: CalendarDate | null;
+  todayCovered: boolean;
+  uncoveredDays: CalendarDate[]; // Days from tomorrow onwards with no puzzle
+}
+
+// ID used for the hardcoded fallback puzzle
+export const FALLBACK_PUZZLE_ID = 'fallback';
+
+// Puzzle IDs are the puzzle's calendar date ("YYYY-MM-DD")
+export const getPuzzleId = (date: CalendarDate): string => date;
+
+// Practice layouts append their own shuffle seed to the puzzle ID ("2025-01-05~k3j9x")
+const PRACTICE_SEED_SEPARATOR = '~';
+
+const toPuzzleResult = (p: PuzzleWithDate, source: PuzzleDataSource, reshuffle = false): PuzzleResult => {
+  if (reshuffle) {
+    const practiceId = `${getPuzzleId(p.date)}${PRACTICE_SEED_SEPARATOR}${Math.random().toString(36).substring(2, 8)}`;
+    return {
+      id: practiceId,
+      puzzle: buildGameData(p.definition, practiceId),
+      date: p.date,
+      source,
+    };
+  }
+
+  return {
+    id: getPuzzleId(p.date),
+    puzzle: p.puzzle,
+    date: p.date,
+    source,
+  };
+};
+
+// Compare calendar dates; no time zone is involved, so server and browser agree
+export const isSameDay = (d1: CalendarDate, d2: CalendarDate): boolean => d1 === d2;
+
+export const isBeforeDay = (d1: CalendarDate, d2: CalendarDate): boolean => d1 < d2;
+
+// Client's local date (already validated as YYYY-MM-DD), or the server's UTC date
+const parseClientDate = (clientDate?: string | null): CalendarDate =>
+  clientDate || toUtcCalendarDate(Date.now());
+
+// Helper to create WordItems with unique IDs and shuffle them
+const createShuffledWords = (
+  texts: string[],
+  rowIndex: number,
+  outlierIdx: number,
+  random: () => number
+): { words: WordItem[], newOutlierIndex: number } => {
+  // Track which word is the outlier during shuffle
+  const wordsWithMeta = texts.map((text, idx) => ({
+    text,
+    isOutlier: idx === outlierIdx
+  }));
+
+  const shuffled = shuffleArray(wordsWithMeta, random);
+  const newOutlierIndex = shuffled.findIndex(w => w.isOutlier);
+
+  const words = shuffled.map((w, idx) => ({
+    text: w.text,
+    id: `row-${rowIndex}-word-${idx}`
+  }));
+
+  return { words, newOutlierIndex };
+};
+
+/**
+ * Build playable GameData from an authored puzzle, shuffling rows and words
+ * The shuffle is seeded by the puzzle ID, so every player and every reload sees the same layout
+ */
+const buildGameData = (definition: PuzzleDefinition, puzzleId: string = getPuzzleId(definition.date)): GameData => {
+  const random = createSeededRandom(puzzleId);
+  const rawRows = definition.rows;
+  const outliers = rawRows.map((raw) => raw.words[3]);
+
+  // Shuffle the row order and track where the ultimate row ends up
+  const shuffledRowIndices = shuffleArray([0, 1, 2, 3], random);
+  const newUltimateRowIndex = shuffledRowIndices.findIndex(i => i === 3);
+
+  // Build GameData with shuffled rows and shuffled words within each row
+  const rows = shuffledRowIndices.map((originalIdx, newIdx) => {
+    const raw = rawRows[originalIdx];
+    const { words, newOutlierIndex } = createShuffledWords(raw.words, newIdx, 3, random); // outlier is always at index 3 in the source
+
+    return {
+      id: `puzzle-${puzzleId}-row-${newIdx}`,
+      category: raw.category,
+      words,
+      outlierIndex: newOutlierIndex,
+      explanation: raw.explanation || `${raw.words[3]} doesn't belong with ${raw.category.toLowerCase()}.`
+    };
+  });
+
+  return {
+    rows,
+    metaCategory: definition.metaCategory,
+    ultimateOutlierRowIndex: newUltimateRowIndex,
+    ultimateExplanation: definition.ultimateExplanation ||
+      `${outliers[0]}, ${outliers[1]}, and ${outliers[2]} are all ${definition.metaCategory.toLowerCase()}. ${outliers[3]} is the Ultimate Oddest1Out.`,
+    metadata: definition.metadata,
+  };
+};
+
+// Helper to create WordItems with unique IDs
+const createWords = (texts: string[], rowIndex: number): WordItem[] =>
+  texts.map((text, idx) => ({
+    text,
+    id: `row-${rowIndex}-word-${idx}`
+  }));
+
+// Fallback puzzle in case the puzzle source fails
+const fallbackPuzzle: GameData = {
+  rows: [
+    {
+      id: 'row-0',
+      category: 'Planets',
+      words: createWords(['Mars', 'Venus', 'Jupiter', 'Apollo'], 0),
+      outlierIndex: 3,
+      explanation: 'Apollo is a NASA program, not a planet.'
+    },
+    {
+      id: 'row-1',
+      category: 'Greek Gods',
+      words: createWords(['Zeus', 'Athena', 'Gemini', 'Poseidon'], 1),
+      outlierIndex: 2,
+      explanation: 'Gemini is a zodiac constellation, not a Greek god.'
+    },
+    {
+      id: 'row-2',
+      category: 'Card Games',
+      words: createWords(['Poker', 'Blackjack', 'Solitaire', 'Bridge'], 2),
+      outlierIndex: 2,
+      explanation: 'Solitaire is a single-player game, not a multiplayer card game.'
+    },
+    {
+      id: 'row-3',
+      category: 'Zodiac Signs',
+      words: createWords(['Aries', 'Leo', 'Mercury', 'Scorpio'], 3),
+      outlierIndex: 2,
+      explanation: 'Mercury is a planet, not a zodiac sign.'
+    }
+  ],
+  metaCategory: 'NASA Space Programs',
+  ultimateOutlierRowIndex: 2,
+  ultimateExplanation: 'Apollo, Gemini, and Mercury are all NASA space programs. Solitaire is a card game with no space connection — it\'s the Ultimate Odd1Out.',
+  metadata: { tags: [] }
+};
+
+const fallbackResult = (): PuzzleResult => ({
+  id: FALLBACK_PUZZLE_ID,
+  puzzle: fallbackPuzzle,
+  date: toUtcCalendarDate(Date.now()),
+  source: 'fallback',
+});
+
+let lastServed: ServedPuzzle | null = null;
+
+const recordServed = (result: PuzzleResult): PuzzleResult => {
+  lastServed = { id: result.id, date: result.date, source: result.source, servedAt: Date.now() };
+  return result;
+};
+
+export const getLastServed = (): ServedPuzzle | null => lastServed;
+
+// Playable puzzles built from the cached definitions, rebuilt only when the definitions change
+let builtPuzzles: { definitions: PuzzleDefinition[]; puzzles: PuzzleWithDate[] } | null = null;
+
+/**
+ * Get puzzles from the puzzle cache and build playable GameData
+ */
+export const fetchPuzzles = async (): Promise<LoadedPuzzles> => {
+  const { definitions, source } = await getPuzzleDefinitions();
+
+  if (builtPuzzles?.definitions !== definitions) {
+    builtPuzzles = {
+      definitions,
+      puzzles: definitions.map((definition) => ({
+        puzzle: buildGameData(definition),
+        date: definition.date,
+        definition,
+      })),
+    };
+  }
+
+  return { puzzles: builtPuzzles.puzzles, source };
+};
+
+// Puzzles dated no later than the furthest-ahead time zone's today
+const fetchReleasedPuzzles = async (): Promise<LoadedPuzzles> => {
+  const { puzzles, source } = await fetchPuzzles();
+  return { puzzles: puzzles.filter(p => isReleased(getPuzzleId(p.date))), source };
+};
+
+/**
+ * Get today's puzzle (matching current date)
+ * Falls back to most recent past puzzle if no puzzle for today
+ * @param clientDate - Optional date string in "YYYY-MM-DD" format from client's timezone
+ * @param reshuffle - Use a fresh practice layout instead of the shared daily one
+ */
+const findTodaysPuzzle = async (clientDate?: string | null, reshuffle = false): Promise<PuzzleResult> => {
+  try {
+    const { puzzles, source } = await fetchReleasedPuzzles();
+
+    if (puzzles.length === 0) {
+      console.warn('No puzzles in source, using fallback');
+      return fallbackResult();
+    }
+
+    const today = parseClientDate(clientDate);
+
+    // Find puzzle for today
+    const todaysPuzzle = puzzles.find(p => isSameDay(p.date, today));
+    if (todaysPuzzle) {
+      return toPuzzleResult(todaysPuzzle, source, reshuffle);
+    }
+
+    // Fallback: find most recent past puzzle
+    const pastPuzzles = puzzles.filter(p => isBeforeDay(p.date, today));
+    if (pastPuzzles.length > 0) {
+      // Sort by date descending and get the most recent
+      pastPuzzles.sort((a, b) => b.date.localeCompare(a.date));
+      console.warn('No puzzle for today, using most recent past puzzle');
+      return toPuzzleResult(pastPuzzles[0], source, reshuffle);
+    }
+
+    // No past puzzles either, return any puzzle
+    console.warn('No puzzle for today or past, using first available');
+    return toPuzzleResult(puzzles[0], source, reshuffle);
+  } catch (error) {
+    console.error('Failed to fetch puzzles from source:', error);
+    return fallbackResult();
+  }
+};
+
+/**
+ * Get a random puzzle from past dates only (before today)
+ * @param clientDate - Optional date string in "YYYY-MM-DD" format from client's timezone
+ * @param reshuffle - Use a fresh practice layout instead of the shared daily one
+ */
+const findRandomPastPuzzle = async (clientDate?: string | null, reshuffle = false): Promise<PuzzleResult> => {
+  try {
+    const { puzzles, source } = await fetchReleasedPuzzles();
+
+    if (puzzles.length === 0) {
+      console.warn('No puzzles in source, using fallback');
+      return fallbackResult();
+    }
+
+    const today = parseClientDate(clientDate);
+
+    // Filter to only past puzzles
+    const pastPuzzles = puzzles.filter(p => isBeforeDay(p.date, today));
+
+    if (pastPuzzles.length === 0) {
+      console.warn('No past puzzles available, using fallback');
+      return fallbackResult();
+    }
+
+    const index = Math.floor(Math.random() * pastPuzzles.length);
+    return toPuzzleResult(pastPuzzles[index], source, reshuffle);
+  } catch (error) {
+    console.error('Failed to fetch puzzles from source:', error);
+    return fallbackResult();
+  }
+};
+
+// The exported lookups record what they serve, so the status endpoint can tell when players got the fallback
+export const getTodaysPuzzle = async (clientDate?: string | null, reshuffle = false): Promise<PuzzleResult> =>
+  recordServed(await findTodaysPuzzle(clientDate, reshuffle));
+
+export const getRandomPastPuzzle = async (clientDate?: string | null, reshuffle = false): Promise<PuzzleResult> =>
+  recordServed(await findRandomPastPuzzle(clientDate, reshuffle));
+
+/**
+ * Get the puzzle for a specific date (deep links and the archive)
+ * Returns null if there's no released puzzle on that date
+ * @param reshuffle - Use a fresh practice layout instead of the shared daily one
+ */
+export const getPuzzleByDate = async (date: CalendarDate, reshuffle = false): Promise<PuzzleResult | null> => {
+  const { puzzles, source } = await fetchReleasedPuzzles();
+  const match = puzzles.find(p => isSameDay(p.date, date));
+  return match ? recordServed(toPuzzleResult(match, source, reshuffle)) : null;
+};
+
+/**
+ * Get any scheduled puzzle by date, released or not (editor preview only)
+ * Returns null if no puzzle is scheduled on that date
+ */
+export const getScheduledPuzzle = async (date: CalendarDate): Promise<PuzzleResult | null> => {
+  const { puzzles, source } = await fetchPuzzles();
+  const match = puzzles.find(p => isSameDay(p.date, date));
+  return match ? toPuzzleResult(match, source) : null;
+};
+
+/**
+ * Check which of today and the following days have a puzzle scheduled
+ * Unreleased puzzles count, since they're what will be served when their day comes
+ * @param days - How many days after today to check
+ */
+export const getScheduleCoverage = async (today: CalendarDate, days: number): Promise<ScheduleCoverage> => {
+  const { puzzles } = await fetchPuzzles();
+  const scheduled = new Set(puzzles.map(p => p.date));
+  const upcoming = Array.from({ length: days }, (_, i) => addDays(today, i + 1));
+
+  return {
+    puzzleCount: puzzles.length,
+    latestDate: [...scheduled].sort().pop() ?? null,
+    todayCovered: scheduled.has(today),
+    uncoveredDays: upcoming.filter(date => !scheduled.has(date)),
+  };
+};
+
+/**
+ * List released puzzles dated before a given date, newest first
+ * Only IDs and dates are returned, so listings never give away answers
+ */
+export const listPastPuzzles = async (before: CalendarDate, limit: number): Promise<PuzzleListing[]> => {
+  const { puzzles } = await fetchReleasedPuzzles();
+  return puzzles
+    .filter(p => isBeforeDay(p.date, before))
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, limit)
+    .map(p => ({ id: getPuzzleId(p.date), date: p.date }));
+};
+
+/**
+ * Get a puzzle by ID for answer checking
+ * Practice IDs rebuild the layout from their seed
+ * Returns null if no released puzzle has that ID
+ * @param includeUnreleased - Also match unreleased puzzles (editor preview only)
+ */
+export const getPuzzleById = async (id: string, includeUnreleased = false): Promise<GameData | null> => {
+  if (id === FALLBACK_PUZZLE_ID) {
+    return fallbackPuzzle;
+  }
+
+  const [baseId, practiceSeed] = id.split(PRACTICE_SEED_SEPARATOR);
+  // Unreleased puzzles are treated as missing so their answers can't be checked early
+  const { puzzles } = includeUnreleased ? await fetchPuzzles() : await fetchReleasedPuzzles();
+  const match = puzzles.find(p => getPuzzleId(p.date) === baseId);
+  if (!match) return null;
+
+  return practiceSeed ? buildGameData(match.definition, id) : match.puzzle;
+};
@@ -0,0 +1,40 @@
+import { CalendarDate, addDays, isCalendarDate, toUtcCalendarDate } from '@/lib/calendarDate';
+
+// The furthest-ahead time zone (UTC+14) is the first to reach each new day
+const LATEST_TIMEZONE_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+// How far a client's local date may be from the server's UTC date
+const CLIENT_DATE_TOLERANCE_DAYS = 1;
+
+/**
+ * Latest puzzle date anyone may play: "today" in the furthest-ahead time zone
+ * Puzzles dated after this are unreleased and must never be served
+ */
+export const getLatestReleaseDate = (now: Date = new Date()): CalendarDate =>
+  toUtcCalendarDate(now.getTime() + LATEST_TIMEZONE_OFFSET_MS);
+
+// Whether a puzzle dated puzzleDate ("YYYY-MM-DD") has been released
+export const isReleased = (puzzleDate: CalendarDate, now: Date = new Date()): boolean =>
+  puzzleDate <= getLatestReleaseDate(now);
+
+/**
+ * Validate a client-supplied local date ("YYYY-MM-DD")
+ * Accepts only dates within one day of the server's UTC date
+ * Returns an error message, or null if the date is acceptable
+ */
+export const validateClientDate = (clientDate: string | null, now: Date = new Date()): string | null => {
+  if (clientDate === null) return null;
+
+  if (!isCalendarDate(clientDate)) {
+    return `Invalid date "${clientDate}", expected YYYY-MM-DD`;
+  }
+
+  const serverDate = toUtcCalendarDate(now.getTime());
+  const earliest = addDays(serverDate, -CLIENT_DATE_TOLERANCE_DAYS);
+  const latest = addDays(serverDate, CLIENT_DATE_TOLERANCE_DAYS);
+  if (clientDate < earliest || clientDate > latest) {
+    return `Date ${clientDate} is not a current date (expected ${earliest} to ${latest})`;
+  }
+
+  return null;
+};
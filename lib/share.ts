@@ -0,0 +1,48 @@
+import { GameResult, GuessOutcome, GuessRecord, HintKind, ScoreItem, ScoreShape } from '@/types';
+import { getStrikeCount, isStandOutWin } from '@/lib/stats';
+
+/**
+ * Emoji for each guess, matching the score colours
+ * Emoji have no coloured stars, so Stand Out (star) guesses use squares and Check (circle) guesses use circles
+ */
+const GUESS_SYMBOLS: Record<ScoreShape, Record<GuessOutcome, string>> = {
+  star: { correct: '⬜', wrong: '🟥', partial: '🟨', win: '🟪' },
+  circle: { correct: '⚪', wrong: '🔴', partial: '🟡', win: '🟣' },
+};
+
+interface ShareOptions {
+  puzzleId: string;
+  gameResult: GameResult | null;
+  score: ScoreItem[];
+  guesses: GuessRecord[];
+  hints: HintKind[];
+  url: string;
+}
+
+// Puzzle label for the share header: its date, marked for practice layouts ("2025-01-05~k3j9x")
+const getPuzzleLabel = (puzzleId: string): string => {
+  const [date, practiceSeed] = puzzleId.split('~');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return '';
+  return practiceSeed ? `${date} (practice)` : date;
+};
+
+/**
+ * Build the shareable result: a header with the puzzle date, outcome and hints used,
+ * one symbol per guess in order, and the site URL. Never includes any words.
+ */
+export const buildShareText = ({ puzzleId, gameResult, score, guesses, hints, url }: ShareOptions): string => {
+  if (!gameResult) {
+    return `Can you find the Oddest1Out?\n${url}`;
+  }
+
+  const label = getPuzzleLabel(puzzleId);
+  const strikes = getStrikeCount(score);
+  const outcome = gameResult === 'won'
+    ? `${strikes} ${strikes === 1 ? 'strike' : 'strikes'}${isStandOutWin(score) ? ' ⭐' : ''}`
+    : 'X';
+  const hintCount = hints.length > 0 ? `💡${hints.length}` : '';
+  const header = ['Oddest1Out', label, outcome, hintCount].filter(Boolean).join(' ');
+  const grid = guesses.map((guess) => GUESS_SYMBOLS[guess.shape][guess.outcome]).join('');
+
+  return `${header}\n${grid}\n${url}`;
+};
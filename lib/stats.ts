@@ -0,0 +1,139 @@
+import dayjs from 'dayjs';
+import { GameResult, HintKind, ScoreItem } from '@/types';
+
+const HISTORY_KEY = 'gameHistory';
+
+// A finished game, kept per puzzle date
+export interface GameRecord {
+  puzzleId: string; // Puzzle date ("YYYY-MM-DD")
+  result: GameResult;
+  score: ScoreItem[];
+  hints?: HintKind[]; // Hints taken, in order (missing from records made before hints existed)
+  daily: boolean; // Played on the puzzle's own date; archive plays don't count toward streaks
+  completedAt: number;
+}
+
+export type GameHistory = Record<string, GameRecord>;
+
+export interface PlayerStats {
+  played: number;
+  winPercentage: number;
+  currentStreak: number;
+  maxStreak: number;
+  strikeDistribution: number[]; // Wins by strikes used (index = strikes)
+  losses: number;
+  standOutWins: number; // Won with a star (Stand Out mode, never used Check)
+  checkWins: number; // Won after using Check
+  hintsUsed: number; // Hints taken across all games
+  hintFreeWins: number; // Won without taking a hint
+}
+
+// Only real dated puzzles are recorded (not practice layouts or the fallback puzzle)
+export const isRecordablePuzzleId = (puzzleId: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(puzzleId);
+
+export const getStrikeCount = (score: ScoreItem[]): number =>
+  score.filter((s) => s.color !== 'PURPLE').length;
+
+export const isStandOutWin = (score: ScoreItem[]): boolean =>
+  score.some((s) => s.shape === 'star' && s.color === 'PURPLE');
+
+// Result shown for a puzzle in the archive
+export type ArchiveStatus = 'starred' | 'won' | 'lost' | 'unplayed';
+
+export const getArchiveStatus = (record: GameRecord | undefined): ArchiveStatus => {
+  if (!record) return 'unplayed';
+  if (record.result !== 'won') return 'lost';
+  return isStandOutWin(record.score) ? 'starred' : 'won';
+};
+
+export const loadHistory = (): GameHistory => {
+  try {
+    const stored = localStorage.getItem(HISTORY_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Record a finished game
+ * The first result for a puzzle is kept, so reopening a finished puzzle can't change it
+ */
+export const recordGame = (puzzleId: string, result: GameResult, score: ScoreItem[], hints: HintKind[]) => {
+  if (!isRecordablePuzzleId(puzzleId)) return;
+
+  const history = loadHistory();
+  if (history[puzzleId]) return;
+
+  history[puzzleId] = {
+    puzzleId,
+    result,
+    score,
+    hints,
+    daily: puzzleId === dayjs().format('YYYY-MM-DD'),
+    completedAt: Date.now(),
+  };
+
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch {
+    // Storage full or unavailable - stats just won't include this game
+  }
+};
+
+const isDailyWin = (record: GameRecord | undefined): boolean =>
+  !!record && record.daily && record.result === 'won';
+
+export const computeStats = (history: GameHistory, today: string = dayjs().format('YYYY-MM-DD')): PlayerStats => {
+  const records = Object.values(history);
+  const wins = records.filter((r) => r.result === 'won');
+
+  const strikeDistribution = [0, 0, 0];
+  for (const record of wins) {
+    strikeDistribution[Math.min(getStrikeCount(record.score), strikeDistribution.length - 1)]++;
+  }
+  const standOutWins = wins.filter((r) => isStandOutWin(r.score)).length;
+
+  // Max streak: longest run of consecutive daily wins
+  let maxStreak = 0;
+  let runLength = 0;
+  let previousDate: string | null = null;
+  const dailyRecords = records
+    .filter((r) => r.daily)
+    .sort((a, b) => a.puzzleId.localeCompare(b.puzzleId));
+  for (const record of dailyRecords) {
+    if (record.result !== 'won') {
+      runLength = 0;
+    } else if (previousDate && dayjs(previousDate).add(1, 'day').format('YYYY-MM-DD') === record.puzzleId) {
+      runLength++;
+    } else {
+      runLength = 1;
+    }
+    previousDate = record.puzzleId;
+    maxStreak = Math.max(maxStreak, runLength);
+  }
+
+  // Current streak: count back from today (or yesterday, if today isn't played yet)
+  let currentStreak = 0;
+  let day = dayjs(today);
+  if (!history[today]) {
+    day = day.subtract(1, 'day');
+  }
+  while (isDailyWin(history[day.format('YYYY-MM-DD')])) {
+    currentStreak++;
+    day = day.subtract(1, 'day');
+  }
+
+  return {
+    played: records.length,
+    winPercentage: records.length > 0 ? Math.round((wins.length / records.length) * 100) : 0,
+    currentStreak,
+    maxStreak,
+    strikeDistribution,
+    losses: records.length - wins.length,
+    standOutWins,
+    checkWins: wins.length - standOutWins,
+    hintsUsed: records.reduce((total, r) => total + (r.hints?.length ?? 0), 0),
+    hintFreeWins: wins.filter((r) => !r.hints?.length).length,
+  };
+};
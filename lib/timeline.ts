@@ -0,0 +1,79 @@
+// Thrown from a cancelled timeline's steps, so the sequence stops where it is
+export class TimelineCancelledError extends Error {
+  constructor() {
+    super('Animation timeline cancelled');
+  }
+}
+
+/**
+ * Steps of an animation sequence (e.g. the win reveal), which can be skipped or cancelled part way
+ * - Skipped: the remaining waits resolve at once, so the sequence runs straight to its end state
+ * - Cancelled: the current and later steps reject with TimelineCancelledError, so nothing else runs
+ */
+export interface Timeline {
+  // Pause between steps; a wait that isn't skippable keeps its full length after a skip
+  wait: (ms: number, skippable?: boolean) => Promise<void>;
+  // Wait for other async work (e.g. a request), stopping the sequence if it was cancelled meanwhile
+  track: <T>(promise: Promise<T>) => Promise<T>;
+  skip: () => void;
+  cancel: () => void;
+}
+
+interface PendingWait {
+  timer: ReturnType<typeof setTimeout>;
+  skippable: boolean;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export const createTimeline = (): Timeline => {
+  const pending = new Set<PendingWait>();
+  let skipped = false;
+  let cancelled = false;
+
+  const settle = (entry: PendingWait, completed: boolean) => {
+    clearTimeout(entry.timer);
+    pending.delete(entry);
+    if (completed) {
+      entry.resolve();
+    } else {
+      entry.reject(new TimelineCancelledError());
+    }
+  };
+
+  return {
+    wait: (ms, skippable = true) => {
+      if (cancelled) return Promise.reject(new TimelineCancelledError());
+      if (skipped && skippable) return Promise.resolve();
+
+      return new Promise<void>((resolve, reject) => {
+        const entry: PendingWait = {
+          skippable,
+          resolve,
+          reject,
+          timer: setTimeout(() => settle(entry, true), ms),
+        };
+        pending.add(entry);
+      });
+    },
+
+    track: async (promise) => {
+      const value = await promise;
+      if (cancelled) throw new TimelineCancelledError();
+      return value;
+    },
+
+    skip: () => {
+      if (cancelled) return;
+      skipped = true;
+      pending.forEach((entry) => {
+        if (entry.skippable) settle(entry, true);
+      });
+    },
+
+    cancel: () => {
+      cancelled = true;
+      pending.forEach((entry) => settle(entry, false));
+    },
+  };
+};
@@ -0,0 +1,25 @@
+/**
+ * Check every puzzle in the active puzzle source and print a per-puzzle report
+ * Usage: npm run validate-puzzles (PUZZLE_SOURCE / PUZZLE_DIR / GOOGLE_SHEET_ID select the source)
+ * Exits with status 1 if any puzzle has errors
+ */
+import { getPuzzleSource } from '@/lib/puzzleSource';
+import { formatValidationReport, validatePuzzles } from '@/lib/puzzleValidation';
+
+const main = async () => {
+  const source = getPuzzleSource();
+  const drafts = await source.fetchDrafts();
+  const report = validatePuzzles(drafts);
+
+  console.log(`Source: ${source.name}\n`);
+  console.log(formatValidationReport(report));
+
+  if (report.errorCount > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error('Failed to validate puzzles:', error);
+  process.exitCode = 1;
+});
@@ -11,13 +11,130 @@ export interface GameRow {
   explanation: string; // Why the outlier is the outlier
 }
 
+// Optional details about a puzzle supplied by its author
+export interface PuzzleMetadata {
+  author?: string;
+  difficulty?: string;
+  tags: string[];
+}
+
 export interface GameData {
   rows: GameRow[];
   metaCategory: string; // The category shared by 3 of the 4 row-outliers
   ultimateOutlierRowIndex: number; // Which row's outlier is the Ultimate Odd1Out
   ultimateExplanation: string; // Why the ultimate outlier doesn't fit the meta category
+  metadata: PuzzleMetadata;
+}
+
+// Puzzle as sent to the browser - words only, the answer key stays on the server
+export interface PublicGameRow {
+  id: string;
+  words: WordItem[];
+}
+
+export interface PublicGameData {
+  id: string; // Puzzle ID used by the answer-checking endpoints
+  version: string; // Content hash - changes whenever the puzzle's words or answers are edited
+  rows: PublicGameRow[];
+  author?: string; // Credit shown under the title
+  difficulty?: string;
+}
+
+// Where a served puzzle came from:
+// - 'sheet': freshly loaded from the puzzle source (Google Sheet or puzzle files)
+// - 'cache': the server's cached copy of the puzzle source
+// - 'fallback': the built-in backup puzzle, served when the puzzle source fails
+export type PuzzleDataSource = 'sheet' | 'fallback' | 'cache';
+
+// Response from the puzzle endpoints (today, random, by date)
+export interface PuzzleResponse {
+  puzzle: PublicGameData;
+  date: string;
+  source: PuzzleDataSource;
+}
+
+// Editor preview of a scheduled (possibly unreleased) puzzle, with its answers for annotation
+export interface PuzzlePreview {
+  token: string; // Admin token, sent with answer requests so unreleased puzzles can be graded
+  puzzle: PuzzleResponse;
+  solution: PuzzleSolution;
+}
+
+// One archive entry: enough to link to a puzzle, nothing about its content
+export interface PuzzleListing {
+  id: string;
+  date: string;
+}
+
+// Answer details for one row, sent only once that row is revealed
+export interface RowReveal {
+  category: string;
+  outlierIndex: number;
+  explanation: string;
+}
+
+// Full answer key, sent only once the game has ended
+export interface PuzzleSolution {
+  rows: RowReveal[];
+  metaCategory: string;
+  ultimateOutlierRowIndex: number;
+  ultimateExplanation: string;
+}
+
+// Result of POST /api/puzzle/[id]/check for one row
+export interface RowCheckResult {
+  rowIndex: number;
+  correct: boolean;
+  reveal?: RowReveal; // Only present when correct
 }
 
+// Response of POST /api/puzzle/[id]/check
+export interface CheckResponse {
+  results: RowCheckResult[];
+  state: string; // Signed game state to send with the next answer request
+  solution?: PuzzleSolution; // Present once the game has used up its strikes
+}
+
+// Result of POST /api/puzzle/[id]/standout
+export type StandoutOutcome = 'win' | 'partial' | 'wrong';
+
+export interface StandoutResult {
+  outcome: StandoutOutcome;
+  reveal?: RowReveal; // Present for 'partial' (the guessed row is now revealed)
+  solution?: PuzzleSolution; // Present for 'win', and for a guess that used up the last strike
+}
+
+// Response of POST /api/puzzle/[id]/standout
+export type StandoutResponse = StandoutResult & { state: string };
+
+// Hints a player can take mid-game; what each costs is decided in lib/hints.ts
+export type HintKind = 'category' | 'eliminate' | 'meta-letter';
+
+// Body of POST /api/puzzle/[id]/hint (alongside the puzzle version)
+export type HintRequest =
+  | { kind: 'category'; rowIndex: number }
+  | { kind: 'eliminate'; rowIndex: number; exclude: number[] } // Words the player already knows are wrong
+  | { kind: 'meta-letter' };
+
+// Result of POST /api/puzzle/[id]/hint
+export type HintResult =
+  | { kind: 'category'; rowIndex: number; category: string }
+  | { kind: 'eliminate'; rowIndex: number; wordIndex: number }
+  | { kind: 'meta-letter'; letter: string };
+
+// 'strike' uses up one of the 3 strikes; 'star' gives up Stand Out mode, like using Check
+export type HintCost = 'strike' | 'star';
+
+// Response of POST /api/puzzle/[id]/hint; the server decides and charges the cost
+export interface HintResponse {
+  hint: HintResult;
+  cost: HintCost;
+  state: string; // Signed game state with the cost charged
+}
+
+// A hint taken in the current game
+export type UsedHint = HintResult & { cost: HintCost };
+
 export enum CardState {
   IDLE = 'IDLE',
   SELECTED = 'SELECTED', // Light gray (Phase 1 selection)
@@ -31,8 +148,33 @@ export enum CardState {
   INACTIVE_ROW = 'INACTIVE_ROW', // Gray (Phase 3 Solved Row)
   WRONG = 'WRONG', // Red (Phase 3 Error)
   WIN = 'WIN', // Green (Phase 3 Win)
+  ELIMINATED = 'ELIMINATED', // Struck out by a hint (not the outlier)
+}
+
+// Score shown as shapes under the title: stars for Stand Out mode, circles after Check
+export type ScoreColor = 'RED' | 'YELLOW' | 'PURPLE';
+export type ScoreShape = 'circle' | 'star';
+
+export interface ScoreItem {
+  color: ScoreColor;
+  shape: ScoreShape;
+  hint?: HintKind; // Strike paid for a hint rather than a wrong guess
 }
 
+// One graded guess, recorded in the order it was made (used for the shared result)
+// 'correct' = a row confirmed by Check (no strike)
+export type GuessOutcome = 'correct' | 'wrong' | 'partial' | 'win';
+
+export interface GuessRecord {
+  shape: ScoreShape;
+  outcome: GuessOutcome;
+}
+
+export type GameResult = 'won' | 'lost';
+
+// Colour theme, on top of light/dark: standard, high-contrast, or colour-blind-safe (Okabe-Ito palette)
+export type ColorTheme = 'standard' | 'high-contrast' | 'colorblind';
+
 export type GameStatus = 'loading' | 'playing' | 'won' | 'lost' | 'error';
 
 // Row display states for animation